@@ -0,0 +1,45 @@
+import { requirePermission } from "../../../../lib/auth-server"
+import { revokeApiKey } from "../../../../lib/api-keys/storage"
+
+export const runtime = "edge"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("search")
+    if (user.apiKey) {
+      return Response.json(
+        { error: "API keys are managed from the dashboard", message: "Sign in to manage API keys" },
+        { status: 403 },
+      )
+    }
+
+    const { id } = await params
+    const revoked = await revokeApiKey(user.id, id)
+    if (!revoked) {
+      return Response.json({ error: "API key not found" }, { status: 404 })
+    }
+
+    return Response.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("API key DELETE error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+import { getUserRole, requirePermission } from "../../../lib/auth-server"
+import { createApiKey, listApiKeys, scopesAllowedFor, validateApiKeyInput } from "../../../lib/api-keys/storage"
+
+export const runtime = "edge"
+
+// Keys are managed from a signed-in session only, so a leaked key cannot mint or list others
+const SESSION_REQUIRED = { error: "API keys are managed from the dashboard", message: "Sign in to manage API keys" }
+
+export async function GET() {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("search")
+    if (user.apiKey) {
+      return Response.json(SESSION_REQUIRED, { status: 403 })
+    }
+
+    const apiKeys = await listApiKeys(user.id)
+    return Response.json({ apiKeys })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("API keys GET error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("search")
+    if (user.apiKey) {
+      return Response.json(SESSION_REQUIRED, { status: 403 })
+    }
+
+    const { input, error } = validateApiKeyInput(await request.json().catch(() => null))
+    if (!input) {
+      return Response.json({ error }, { status: 400 })
+    }
+
+    // Requests made with the key are also capped to the owner's role at the time they are made
+    const allowed = scopesAllowedFor(getUserRole(user), input.scopes)
+    if (allowed.length < input.scopes.length) {
+      return Response.json({ error: "Your role does not allow some of the requested scopes" }, { status: 403 })
+    }
+
+    const result = await createApiKey(user.id, input)
+    if (result.error) {
+      return Response.json({ error: result.error }, { status: 409 })
+    }
+
+    return Response.json({ apiKey: result.apiKey, token: result.token }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("API keys POST error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { requirePermission } from "../../../../lib/auth-server"
+import {
+  DEFAULT_CHAT_MODEL,
+  DEFAULT_CHAT_PROVIDER,
+  listChatModels,
+  toModelId,
+} from "../../../../lib/ai/chat-providers"
+import { getSettings } from "../../../../lib/settings/storage"
+
+export const runtime = "edge"
+
+export async function GET() {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    await requirePermission("search")
+
+    const settings = await getSettings()
+
+    return Response.json({
+      models: listChatModels(settings),
+      defaultModel: toModelId(
+        settings.chatProvider || DEFAULT_CHAT_PROVIDER,
+        settings.chatModel || DEFAULT_CHAT_MODEL,
+      ),
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Chat models GET error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
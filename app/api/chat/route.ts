@@ -1,41 +1,192 @@
-import { requireAuth } from "../../../lib/auth-server"
-import { createEmbedding } from "../../../lib/ai/embeddings"
+import { requirePermission } from "../../../lib/auth-server"
+import { createEmbeddingProvider, validateIndexDimensions } from "../../../lib/ai/embeddings"
 import { searchVectors } from "../../../lib/pinecone/search"
+import { createVectorStore, getVectorStoreType } from "../../../lib/vector-store/client"
+import { createKeywordIndex } from "../../../lib/pinecone/keyword-index"
+import { mergeResultLists } from "../../../lib/pinecone/hybrid"
+import { createReranker } from "../../../lib/ai/rerank"
+import { buildSearchFilter, validateSearchFilters } from "../../../lib/pinecone/filters"
+import { kv } from "@vercel/kv"
+import { getCollection } from "../../../lib/collections/storage"
+import { getReadableDocumentIds, withReadAccess } from "../../../lib/documents/access"
+import { getSettings } from "../../../lib/settings/storage"
 import { buildRAGPrompt } from "../../../lib/ai/prompts"
-import { streamChatCompletion } from "../../../lib/ai/chat"
-import { validateEnv } from "../../../lib/utils/env"
+import { rewriteQuery } from "../../../lib/ai/query-rewriter"
+import { buildSourceAnnotations, SOURCES_ANNOTATION_TYPE, streamChatCompletion } from "../../../lib/ai/chat"
+import { isListedChatModel, parseModelId, resolveChatModel } from "../../../lib/ai/chat-providers"
+import { createDataStreamResponse, formatDataStreamPart } from "ai"
+import {
+  appendMessages,
+  createConversation,
+  getConversation,
+  updateConversation,
+} from "../../../lib/conversations/storage"
+import { checkEnv, getServiceEnvGroups } from "../../../lib/utils/env"
 
 export const runtime = "edge"
 
 export async function POST(request: Request) {
   try {
-    // Validate environment
-    const envResult = validateEnv(["openai", "pinecone"])
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("search")
+
+    // Everything is validated before a thread is created, so a rejected request leaves nothing behind
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== "object") {
+      return Response.json({ error: "Request body must be a JSON object" }, { status: 400 })
+    }
+    const { messages, filters, conversationId, model, collection: collectionId } = body
+
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return Response.json({ error: "Messages must be a non-empty array" }, { status: 400 })
+    }
+    const lastMessage = messages[messages.length - 1]?.content
+    if (typeof lastMessage !== "string" || !lastMessage.trim()) {
+      return Response.json({ error: "No message provided" }, { status: 400 })
+    }
+
+    // Optional model picked in the chat UI, as "provider:model"
+    if (model !== undefined && model !== null && (typeof model !== "string" || !parseModelId(model))) {
+      return Response.json({ error: "Model must be a 'provider:model' id" }, { status: 400 })
+    }
+
+    // Knowledge base to answer from; the default collection when omitted
+    if (collectionId !== undefined && collectionId !== null && typeof collectionId !== "string") {
+      return Response.json({ error: "Collection must be a string" }, { status: 400 })
+    }
+    const collection = await getCollection(collectionId)
+    if (!collection) {
+      return Response.json({ error: "Unknown collection" }, { status: 400 })
+    }
+
+    // Optional scope from the chat scope picker
+    const filterResult = validateSearchFilters(filters)
+    if (filterResult.error) {
+      return Response.json({ error: filterResult.error }, { status: 400 })
+    }
+
+    // An existing thread to continue; a new one is only created once the answer is streaming
+    const existingThread = conversationId ? await getConversation(user.id, conversationId) : null
+    if (conversationId && !existingThread) {
+      return Response.json({ error: "Conversation not found" }, { status: 404 })
+    }
+
+    // Retrieval parameters are configured on the settings page
+    const settings = await getSettings()
+    if (model && !isListedChatModel(settings, model)) {
+      return Response.json({ error: "Model is not available" }, { status: 400 })
+    }
+
+    // Validate environment for the configured embedding provider and vector store
+    const envResult = checkEnv(
+      getServiceEnvGroups({ embeddingProvider: settings.embeddingProvider, vectorStore: getVectorStoreType() }),
+    )
     if (!envResult.isValid) {
+      console.error("Chat API missing environment variables:", envResult.missing.join(", "))
       return Response.json({ error: "Environment configuration error" }, { status: 500 })
     }
 
-    // Simple auth check - throws if unauthorized
-    const user = await requireAuth()
+    // Temperature and max tokens come from settings; the model from the request, the thread or the settings default
+    const chatModel = resolveChatModel(settings, model || existingThread?.model)
 
-    const { messages } = await request.json()
-    const lastMessage = messages[messages.length - 1]?.content
+    // Follow-ups like "how do I enable it on consoles?" need the conversation to be searchable
+    const { query, subQueries } =
+      !settings.queryRewriting
+        ? { query: lastMessage, subQueries: [] }
+        : await rewriteQuery(messages, { subQueries: settings.subQueries, chatModel })
 
-    if (!lastMessage) {
-      return Response.json({ error: "No message provided" }, { status: 400 })
-    }
+    const topK = settings.topK
+    const vectorStore = createVectorStore()
+    const keywordIndex = createKeywordIndex()
+    const reranker = createReranker(settings.reranker)
+    // Only documents the user owns or that were shared with them are retrieved
+    const filter = withReadAccess(
+      buildSearchFilter(filterResult.filters),
+      await getReadableDocumentIds(user.id, collection.id),
+    )
 
-    // Generate embedding for the query
-    const embedding = await createEmbedding(lastMessage)
+    // Search for relevant documents with the standalone query and any sub-queries;
+    // nothing is retrieved when the user cannot read any document in the collection
+    let searchResults: Awaited<ReturnType<typeof searchVectors>> = []
+    if (filter) {
+      // Queries must be embedded with the same provider the documents were indexed with
+      const embeddingProvider = createEmbeddingProvider(settings)
+      await validateIndexDimensions(embeddingProvider, vectorStore)
 
-    // Search for relevant documents
-    const searchResults = await searchVectors(embedding, 5)
+      const searchQueries = [query, ...subQueries]
+      const embeddings = await embeddingProvider.embed(searchQueries)
+      const resultLists = await Promise.all(
+        searchQueries.map((searchQuery, i) =>
+          searchVectors(vectorStore, embeddings[i], {
+            topK,
+            filter,
+            query: searchQuery,
+            hybridSearch: settings.hybridSearch,
+            keywordIndex,
+            fusion: settings.fusionMethod,
+            alpha: settings.hybridAlpha,
+            reranker,
+            namespace: collection.namespace,
+          }),
+        ),
+      )
+      searchResults = mergeResultLists(resultLists, topK)
+    }
 
     // Build RAG prompt with context
-    const prompt = buildRAGPrompt(lastMessage, searchResults)
+    const prompt = buildRAGPrompt(messages, searchResults)
+
+    // Resolve document URLs so citations can link to the source file
+    const documentIds = Array.from(new Set(searchResults.map((result) => result.metadata?.documentId).filter(Boolean)))
+    const documents = await Promise.all(documentIds.map((id) => kv.get<{ url?: string }>(`document:${id}`)))
+    const documentUrls = Object.fromEntries(documentIds.map((id, index) => [id, documents[index]?.url]))
+    const sources = buildSourceAnnotations(searchResults, documentUrls)
 
-    // Stream the response
-    return streamChatCompletion([...messages.slice(0, -1), { role: "user", content: prompt }])
+    const stream = await streamChatCompletion(prompt, chatModel)
+    const assistantMessageId = crypto.randomUUID()
+
+    // Continue the thread, or start one named after the first question; a model switch sticks to it for later turns
+    const thread = existingThread || (await createConversation(user.id, lastMessage))
+    const conversation =
+      model && model !== thread.model ? (await updateConversation(user.id, thread.id, { model })) || thread : thread
+
+    // Data stream: sources go out as a message annotation before the answer text
+    return createDataStreamResponse({
+      headers: {
+        "X-Conversation-Id": conversation.id,
+        "X-Chat-Model": chatModel.modelId,
+        // Exposes the standalone query that was actually searched, for debugging
+        "X-Search-Query": encodeURIComponent(query),
+      },
+      execute: async (dataStream) => {
+        // The client adopts this id, so feedback on the answer can be matched to the stored message
+        dataStream.write(formatDataStreamPart("start_step", { messageId: assistantMessageId }))
+        dataStream.writeMessageAnnotation({ type: SOURCES_ANNOTATION_TYPE, sources })
+
+        const reader = stream.getReader()
+        const decoder = new TextDecoder()
+        let answer = ""
+        while (true) {
+          const { done, value } = await reader.read()
+          if (done) break
+          const text = decoder.decode(value, { stream: true })
+          answer += text
+          dataStream.write(formatDataStreamPart("text", text))
+        }
+
+        // Store the turn once the answer is complete, with the sources it was grounded on
+        const now = new Date().toISOString()
+        const userMessageId = messages[messages.length - 1].id || crypto.randomUUID()
+        await appendMessages(user.id, conversation.id, [
+          { id: userMessageId, role: "user", content: lastMessage, createdAt: now },
+          { id: assistantMessageId, role: "assistant", content: answer, createdAt: now, sources },
+        ])
+      },
+      onError: (error) => {
+        console.error("Chat stream error:", error)
+        return "An error occurred while generating the response."
+      },
+    })
   } catch (error) {
     if (error instanceof Error && error.message === "Unauthorized") {
       return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
@@ -43,6 +194,12 @@ export async function POST(request: Request) {
         headers: { "Content-Type": "application/json" },
       })
     }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
 
     console.error("Chat API error:", error)
     return Response.json({ error: "Internal server error" }, { status: 500 })
@@ -0,0 +1,82 @@
+import { requirePermission, userHasPermission } from "../../../../lib/auth-server"
+import { DEFAULT_COLLECTION_ID, deleteCollection, getCollection } from "../../../../lib/collections/storage"
+import { canReadDocument } from "../../../../lib/documents/access"
+import { deleteDocument, getCollectionDocuments } from "../../../../lib/documents/storage"
+
+export const runtime = "edge"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("collections:write")
+    const { id } = await params
+
+    if (id === DEFAULT_COLLECTION_ID) {
+      return Response.json({ error: "The default collection cannot be deleted" }, { status: 400 })
+    }
+
+    const collection = await getCollection(id)
+    if (!collection) {
+      return Response.json({ error: "Collection not found" }, { status: 404 })
+    }
+
+    // Deleting the documents first also removes their vectors from the collection's namespace.
+    // Admins (who also run storage cleanup) may cascade, which covers other users' private documents too
+    const documents = await getCollectionDocuments(id)
+    const canCascade = userHasPermission(user, "debug")
+    const cascade = canCascade && new URL(request.url).searchParams.get("cascade") === "true"
+
+    if (documents.length > 0 && !cascade) {
+      const hidden = documents.filter((document) => !canReadDocument(document, user.id)).length
+      const count = `${documents.length} document${documents.length === 1 ? "" : "s"}`
+      const reason =
+        hidden > 0
+          ? `The collection still holds ${count}, ${hidden} of them private to other users`
+          : `Delete the ${count} in this collection first`
+      const hint = canCascade
+        ? ". Delete the collection with its documents instead"
+        : hidden > 0
+          ? ". Ask an admin to delete the collection with its documents"
+          : ""
+      return Response.json(
+        {
+          error: reason + hint,
+          documents: documents.length,
+          hidden,
+          canCascade,
+        },
+        { status: 409 },
+      )
+    }
+
+    for (const document of documents) {
+      const result = await deleteDocument(document.id)
+      if (!result.success) {
+        return Response.json({ error: result.error || `Failed to delete document ${document.id}` }, { status: 500 })
+      }
+    }
+
+    await deleteCollection(id)
+    return Response.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Collection DELETE error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
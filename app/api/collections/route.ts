@@ -0,0 +1,82 @@
+import { requirePermission } from "../../../lib/auth-server"
+import { createCollection, listCollections, validateCollectionInput } from "../../../lib/collections/storage"
+import { getReadableDocuments } from "../../../lib/documents/storage"
+import { createVectorStore } from "../../../lib/vector-store/client"
+
+export const runtime = "edge"
+
+export async function GET() {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("search")
+
+    const [collections, documents] = await Promise.all([listCollections(), getReadableDocuments(user.id)])
+
+    // Vector counts are informational; an unreachable vector store should not hide the list
+    const stats = await createVectorStore()
+      .describeIndexStats()
+      .catch((error) => {
+        console.error("[COLLECTIONS] Failed to load vector store stats:", error)
+        return null
+      })
+
+    return Response.json({
+      collections: collections.map((collection) => ({
+        ...collection,
+        documentCount: documents.filter((document) => document.collectionId === collection.id).length,
+        vectorCount: stats ? stats.namespaces?.[collection.namespace]?.vectorCount || 0 : undefined,
+      })),
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Collections GET error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("collections:write")
+
+    const input = validateCollectionInput(await request.json().catch(() => null))
+    if ("error" in input) {
+      return Response.json({ error: input.error }, { status: 400 })
+    }
+
+    const collection = await createCollection(input)
+    if (!collection) {
+      return Response.json({ error: "A collection with this name already exists" }, { status: 409 })
+    }
+
+    return Response.json({ collection }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Collections POST error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
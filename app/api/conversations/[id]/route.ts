@@ -0,0 +1,126 @@
+import { requirePermission } from "../../../../lib/auth-server"
+import { isListedChatModel, parseModelId } from "../../../../lib/ai/chat-providers"
+import { getSettings } from "../../../../lib/settings/storage"
+import {
+  deleteConversation,
+  getConversationWithMessages,
+  updateConversation,
+} from "../../../../lib/conversations/storage"
+
+export const runtime = "edge"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("search")
+    const { id } = await params
+
+    const conversation = await getConversationWithMessages(user.id, id)
+    if (!conversation) {
+      return Response.json({ error: "Conversation not found" }, { status: 404 })
+    }
+
+    return Response.json({ conversation })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Conversation GET error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("search")
+    const { id } = await params
+
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== "object") {
+      return Response.json({ error: "Request body must be a JSON object" }, { status: 400 })
+    }
+    const { title, model } = body
+
+    if (title === undefined && model === undefined) {
+      return Response.json({ error: "Nothing to update" }, { status: 400 })
+    }
+    if (title !== undefined && (typeof title !== "string" || !title.trim())) {
+      return Response.json({ error: "Title must be a non-empty string" }, { status: 400 })
+    }
+    if (model !== undefined && model !== null && (typeof model !== "string" || !parseModelId(model))) {
+      return Response.json({ error: "Model must be a 'provider:model' id" }, { status: 400 })
+    }
+    if (model && !isListedChatModel(await getSettings(), model)) {
+      return Response.json({ error: "Model is not available" }, { status: 400 })
+    }
+
+    const conversation = await updateConversation(user.id, id, { title, model })
+    if (!conversation) {
+      return Response.json({ error: "Conversation not found" }, { status: 404 })
+    }
+
+    return Response.json({ conversation })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Conversation PATCH error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("search")
+    const { id } = await params
+
+    const deleted = await deleteConversation(user.id, id)
+    if (!deleted) {
+      return Response.json({ error: "Conversation not found" }, { status: 404 })
+    }
+
+    return Response.json({ success: true })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Conversation DELETE error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { requirePermission } from "../../../lib/auth-server"
+import { createConversation, listConversations } from "../../../lib/conversations/storage"
+
+export const runtime = "edge"
+
+export async function GET() {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("search")
+
+    const conversations = await listConversations(user.id)
+    return Response.json({ conversations })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Conversations GET error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("search")
+
+    const { title } = await request.json().catch(() => ({}))
+
+    if (title !== undefined && typeof title !== "string") {
+      return Response.json({ error: "Title must be a string" }, { status: 400 })
+    }
+
+    const conversation = await createConversation(user.id, title)
+    return Response.json({ conversation }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Conversations POST error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,6 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { validateEnv } from "../../../../lib/utils/env"
-import { requireAuth } from "../../../../lib/auth-server"
+import { requirePermission } from "../../../../lib/auth-server"
 import { cleanupOrphanedEntries } from "../../../../lib/documents/storage"
 import { debug } from "../../../../lib/utils/debug"
 import { kv } from "@vercel/kv"
@@ -13,8 +13,8 @@ export async function POST(request: NextRequest) {
   try {
     validateEnv(["SUPABASE", "VERCEL_KV"])
 
-    // Simple auth check - throws if unauthorized
-    const user = await requireAuth()
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("debug")
     debug.log("[DEBUG CLEANUP] User authenticated:", user.id)
 
     const body = await request.json()
@@ -53,6 +53,12 @@ export async function POST(request: NextRequest) {
         headers: { "Content-Type": "application/json" },
       })
     }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
 
     return NextResponse.json(
       {
@@ -71,8 +77,8 @@ export async function GET(request: NextRequest) {
   try {
     validateEnv(["SUPABASE", "VERCEL_KV"])
 
-    // Simple auth check - throws if unauthorized
-    const user = await requireAuth()
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("debug")
     debug.log("[DEBUG CLEANUP] User authenticated for analysis:", user.id)
 
     // Get all document-related keys for inspection
@@ -125,6 +131,12 @@ export async function GET(request: NextRequest) {
         headers: { "Content-Type": "application/json" },
       })
     }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
 
     return NextResponse.json(
       {
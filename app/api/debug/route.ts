@@ -1,6 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { validateEnv } from "../../../lib/utils/env"
-import { requireAuth } from "../../../lib/auth-server"
+import { requirePermission } from "../../../lib/auth-server"
 import { debug } from "../../../lib/utils/debug"
 
 export const runtime = "edge"
@@ -13,8 +13,8 @@ export async function GET(request: NextRequest) {
     const envValidation = validateEnv(["SUPABASE", "VERCEL_KV", "OPENAI", "PINECONE"])
     debug.log("[DEBUG API] Environment validation:", envValidation)
 
-    // Simple auth check - throws if unauthorized
-    const user = await requireAuth()
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("debug")
     debug.log("[DEBUG API] User authenticated:", user.id)
 
     // Perform actual service tests
@@ -65,6 +65,12 @@ export async function GET(request: NextRequest) {
         headers: { "Content-Type": "application/json" },
       })
     }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
 
     return NextResponse.json(
       {
@@ -159,6 +165,12 @@ async function performServiceTests() {
           stats: {
             totalVectors: stats.totalVectorCount || 0,
             dimension: stats.dimension || 0,
+            // Vector count per collection namespace
+            namespaces: Object.fromEntries(
+              Object.entries((stats.namespaces || {}) as Record<string, { vectorCount: number }>).map(
+                ([namespace, { vectorCount }]) => [namespace || "(default)", vectorCount],
+              ),
+            ),
           },
         }
       } else {
@@ -0,0 +1,101 @@
+import { after } from "next/server"
+import { requirePermission } from "../../../../../lib/auth-server"
+import { authorizeDocument } from "../../../../../lib/documents/access"
+import { activateRevision, getRevisions } from "../../../../../lib/documents/revisions"
+import { createIngestionJob, getDocumentJob, runJob } from "../../../../../lib/jobs/ingestion"
+
+export const runtime = "edge"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("search")
+    const { id } = await params
+
+    const { document, error } = await authorizeDocument<{ id: string; activeRevision?: number }>(id, user.id, "read")
+    if (!document) {
+      return Response.json({ error: error?.message }, { status: error?.status })
+    }
+
+    const revisions = await getRevisions(id)
+    return Response.json({
+      // Newest first
+      revisions: [...revisions].reverse(),
+      activeRevision: document.activeRevision || revisions[revisions.length - 1]?.revision || 1,
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Revisions GET error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Roll back (or forward) to a revision and re-index the document with it
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("documents:write")
+    const { id } = await params
+
+    const body = await request.json().catch(() => ({}))
+    const revisionNumber = Number(body.revision)
+    if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+      return Response.json({ error: "A revision number is required" }, { status: 400 })
+    }
+
+    // Only the owner can switch revisions
+    const { error } = await authorizeDocument(id, user.id, "modify")
+    if (error) {
+      return Response.json({ error: error.message }, { status: error.status })
+    }
+
+    const activeJob = await getDocumentJob(id)
+    if (activeJob && (activeJob.status === "queued" || activeJob.status === "running")) {
+      return Response.json({ error: "Document is still being processed" }, { status: 409 })
+    }
+
+    const revision = await activateRevision(id, revisionNumber)
+    if (!revision) {
+      return Response.json({ error: "Revision not found" }, { status: 404 })
+    }
+
+    // Only chunks that differ from the current revision are re-embedded
+    const job = await createIngestionJob(id)
+    after(() => runJob(job.id))
+
+    console.log(`[REVISIONS] Document ${id} rolled back to revision ${revision.revision}`)
+    return Response.json({ revision, job }, { status: 202 })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Revisions POST error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
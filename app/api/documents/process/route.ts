@@ -1,69 +1,57 @@
-import { type NextRequest, NextResponse } from "next/server"
-import { kv } from "@vercel/kv"
-import { validateEnv } from "../../../../lib/utils/env"
-import { requireAuth } from "../../../../lib/auth-server"
-import { processDocument } from "../../../../lib/documents/processor"
+import { type NextRequest, NextResponse, after } from "next/server"
+import { checkEnv, getServiceEnvGroups } from "../../../../lib/utils/env"
+import { getSettings } from "../../../../lib/settings/storage"
+import { getVectorStoreType } from "../../../../lib/vector-store/client"
+import { requirePermission } from "../../../../lib/auth-server"
+import { createIngestionJob, runJob } from "../../../../lib/jobs/ingestion"
+import { authorizeDocument } from "../../../../lib/documents/access"
 
 export const runtime = "edge"
 
 export async function POST(request: NextRequest) {
   try {
-    // Validate environment
-    const envResult = validateEnv(["openai", "pinecone", "blob"])
+    // Validate environment for the configured embedding provider and vector store, plus Blob for the source file
+    const settings = await getSettings()
+    const envResult = checkEnv([
+      ...getServiceEnvGroups({ embeddingProvider: settings.embeddingProvider, vectorStore: getVectorStoreType() }),
+      "VERCEL_BLOB",
+    ])
     if (!envResult.isValid) {
+      console.error("Document processing missing environment variables:", envResult.missing.join(", "))
       return NextResponse.json({ error: "Environment configuration error" }, { status: 500 })
     }
 
-    // Simple auth check - throws if unauthorized
-    const user = await requireAuth()
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("documents:write")
 
-    // Get document ID, URL, and filename from request body
-    const { documentId, url, filename } = await request.json()
+    // Document ID comes from the body or, for the upload form, the query string
+    const body = await request.json().catch(() => ({}))
+    const documentId = body.documentId || request.nextUrl.searchParams.get("id")
 
-    if (!documentId || !url || !filename) {
-      return NextResponse.json({ error: "Document ID, URL, and filename are required" }, { status: 400 })
+    if (!documentId) {
+      return NextResponse.json({ error: "Document ID is required" }, { status: 400 })
     }
 
-    // Check if document is already being processed
-    const status = await kv.get(`document:${documentId}:status`)
-
-    if (status === "processing") {
-      return NextResponse.json({ error: "Document is already being processed" }, { status: 400 })
+    // Only the owner can re-process a document
+    const { error } = await authorizeDocument(documentId, user.id, "modify")
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
     }
 
-    // Process document with streaming updates
-    const encoder = new TextEncoder()
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          await processDocument(documentId, url, filename, (update) => {
-            const data = `data: ${JSON.stringify(update)}\n\n`
-            controller.enqueue(encoder.encode(data))
-          })
+    // Returns the running job when the document is already being processed
+    const job = await createIngestionJob(documentId)
 
-          controller.close()
-        } catch (error) {
-          const errorData = `data: ${JSON.stringify({
-            type: "error",
-            error: error instanceof Error ? error.message : "Processing failed",
-          })}\n\n`
-          controller.enqueue(encoder.encode(errorData))
-          controller.close()
-        }
-      },
-    })
+    // Start right away; anything left over resumes from its checkpoint when polled or on cron
+    after(() => runJob(job.id))
 
-    return new Response(stream, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
-    })
+    return NextResponse.json({ job }, { status: 202 })
   } catch (error) {
     if (error instanceof Error && error.message === "Unauthorized") {
       return NextResponse.json({ error: "Unauthorized", message: "Authentication required" }, { status: 401 })
     }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return NextResponse.json({ error: "Forbidden", message: "Your role does not allow this action" }, { status: 403 })
+    }
 
     console.error("Document processing error:", error)
     return NextResponse.json({ error: "Failed to process document" }, { status: 500 })
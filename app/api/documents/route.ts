@@ -1,15 +1,31 @@
-import { requireAuth } from "../../../lib/auth-server"
-import { getDocuments, deleteDocument } from "../../../lib/documents/storage"
+import { requirePermission } from "../../../lib/auth-server"
+import { getReadableDocuments, deleteDocument } from "../../../lib/documents/storage"
+import { kv } from "@vercel/kv"
+import {
+  authorizeDocument,
+  canModifyDocument,
+  indexDocumentAccess,
+  validateVisibility,
+} from "../../../lib/documents/access"
 
 export const runtime = "edge"
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    // Simple auth check - throws if unauthorized
-    const user = await requireAuth()
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("search")
 
-    const documents = await getDocuments()
-    return Response.json({ documents })
+    // Optional ?collection= narrows the list to one knowledge base
+    const collectionId = new URL(request.url).searchParams.get("collection")
+
+    // Only the user's own documents and shared ones are listed
+    const documents = (await getReadableDocuments(user.id)).map((document) => ({
+      ...document,
+      canEdit: canModifyDocument(document, user.id),
+    }))
+    return Response.json({
+      documents: collectionId ? documents.filter((document) => document.collectionId === collectionId) : documents,
+    })
   } catch (error) {
     if (error instanceof Error && error.message === "Unauthorized") {
       return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
@@ -17,6 +33,12 @@ export async function GET() {
         headers: { "Content-Type": "application/json" },
       })
     }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
 
     console.error("Documents GET error:", error)
     return Response.json({ error: "Internal server error" }, { status: 500 })
@@ -25,8 +47,8 @@ export async function GET() {
 
 export async function DELETE(request: Request) {
   try {
-    // Simple auth check - throws if unauthorized
-    const user = await requireAuth()
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("documents:write")
 
     const { searchParams } = new URL(request.url)
     const documentId = searchParams.get("id")
@@ -35,6 +57,11 @@ export async function DELETE(request: Request) {
       return Response.json({ error: "Document ID is required" }, { status: 400 })
     }
 
+    const { error } = await authorizeDocument(documentId, user.id, "modify")
+    if (error) {
+      return Response.json({ error: error.message }, { status: error.status })
+    }
+
     await deleteDocument(documentId)
     return Response.json({ success: true })
   } catch (error) {
@@ -44,8 +71,65 @@ export async function DELETE(request: Request) {
         headers: { "Content-Type": "application/json" },
       })
     }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
 
     console.error("Documents DELETE error:", error)
     return Response.json({ error: "Internal server error" }, { status: 500 })
   }
 }
+
+// Share a document with every signed-in user, or make it private again
+export async function PATCH(request: Request) {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("documents:write")
+
+    const { searchParams } = new URL(request.url)
+    const documentId = searchParams.get("id")
+
+    if (!documentId) {
+      return Response.json({ error: "Document ID is required" }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { visibility, error: visibilityError } = validateVisibility(body.visibility)
+    if (!visibility) {
+      return Response.json({ error: visibilityError || "Visibility is required" }, { status: 400 })
+    }
+
+    const { document, error } = await authorizeDocument<Record<string, any> & { id: string }>(
+      documentId,
+      user.id,
+      "modify",
+    )
+    if (!document) {
+      return Response.json({ error: error?.message }, { status: error?.status })
+    }
+
+    // Search filters by readable document ids, so the change applies without re-indexing
+    await kv.set(`document:${documentId}`, { ...document, visibility })
+    await indexDocumentAccess({ ...document, visibility })
+    return Response.json({ success: true, visibility })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Documents PATCH error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -2,21 +2,31 @@ import { type NextRequest, NextResponse } from "next/server"
 import { put } from "@vercel/blob"
 import { validateEnv } from "../../../../lib/utils/env"
 import { kv } from "@vercel/kv"
-import { requireAuth } from "../../../../lib/auth-server"
+import { requirePermission } from "../../../../lib/auth-server"
+import { CODE_EXTENSIONS, detectCodeLanguage } from "../../../../lib/documents/code"
+import { DEFAULT_COLLECTION_ID, getCollection } from "../../../../lib/collections/storage"
+import { addRevision, findDocumentByName, registerDocumentName } from "../../../../lib/documents/revisions"
+import { getDocumentJob } from "../../../../lib/jobs/ingestion"
+import {
+  authorizeDocument,
+  indexDocumentAccess,
+  unindexDocumentAccess,
+  validateVisibility,
+} from "../../../../lib/documents/access"
 
 export const runtime = "edge"
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
 const ALLOWED_TYPES = ["text/markdown", "text/plain", "application/pdf", "text/html"]
-const ALLOWED_EXTENSIONS = [".md", ".txt", ".pdf", ".html"]
+const ALLOWED_EXTENSIONS = [".md", ".txt", ".pdf", ".html", ...Object.keys(CODE_EXTENSIONS)]
 
 export async function POST(request: NextRequest) {
   try {
     // Validate environment
     validateEnv(["SUPABASE", "VERCEL_BLOB", "VERCEL_KV"])
 
-    // Simple auth check - throws if unauthorized
-    const user = await requireAuth()
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("documents:write")
 
     const formData = await request.formData()
     const file = formData.get("file") as File
@@ -25,10 +35,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "No file provided" }, { status: 400 })
     }
 
-    // Validate file type
-    if (!ALLOWED_TYPES.includes(file.type)) {
+    // Validate file type - browsers report inconsistent MIME types for source files, so trust the extension
+    const isCodeFile = !!detectCodeLanguage(file.name)
+    if (!isCodeFile && !ALLOWED_TYPES.includes(file.type)) {
       return NextResponse.json(
-        { error: "Invalid file type. Supported types: Markdown, Text, PDF, HTML" },
+        { error: "Invalid file type. Supported types: Markdown, Text, PDF, HTML, source code" },
         { status: 400 },
       )
     }
@@ -37,7 +48,7 @@ export async function POST(request: NextRequest) {
     const hasValidExtension = ALLOWED_EXTENSIONS.some((ext) => file.name.toLowerCase().endsWith(ext))
     if (!hasValidExtension) {
       return NextResponse.json(
-        { error: "Invalid file extension. Supported extensions: .md, .txt, .pdf, .html" },
+        { error: `Invalid file extension. Supported extensions: ${ALLOWED_EXTENSIONS.join(", ")}` },
         { status: 400 },
       )
     }
@@ -54,39 +65,103 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "File is empty" }, { status: 400 })
     }
 
-    // Generate document ID and sanitize filename
-    const documentId = `doc-${Date.now()}`
-    const sanitizedFileName = file.name.replace(/[^a-zA-Z0-9.-_]/g, "_")
+    const { visibility, error: visibilityError } = validateVisibility(formData.get("visibility"))
+    if (visibilityError) {
+      return NextResponse.json({ error: visibilityError }, { status: 400 })
+    }
+
+    // A document ID uploads a new revision of that document; re-indexing then only embeds changed chunks
+    const revisionOf = formData.get("documentId") as string | null
+    let revised: { id: string; collectionId?: string } | undefined
+    if (revisionOf) {
+      const { document, error } = await authorizeDocument<{ id: string; collectionId?: string }>(
+        revisionOf,
+        user.id,
+        "modify",
+      )
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: error.status })
+      }
+      revised = document
+    }
+
+    // Target knowledge base; the default collection when omitted. Revisions stay in their document's collection
+    const collection = await getCollection(revised ? revised.collectionId : (formData.get("collection") as string | null))
+    if (!collection) {
+      return NextResponse.json({ error: "Unknown collection" }, { status: 400 })
+    }
+
+    // Re-uploading one of your own files under the same name in the same collection also adds a revision
+    const documentId =
+      revisionOf || (await findDocumentByName(collection.id, user.id, file.name)) || `doc-${Date.now()}`
+    const existing = await kv.get<Record<string, any>>(`document:${documentId}`)
+
+    if (existing) {
+      const job = await getDocumentJob(documentId)
+      if (job && (job.status === "queued" || job.status === "running")) {
+        return NextResponse.json({ error: "Document is still being processed" }, { status: 409 })
+      }
+    }
 
-    // Upload to Vercel Blob
+    // Upload to Vercel Blob; every revision keeps its own file so it can be restored later.
+    // The random suffix keeps the URL of a private document from being guessed from its id and filename
+    const sanitizedFileName = file.name.replace(/[^a-zA-Z0-9.-_]/g, "_")
     const blobResult = await put(`documents/${documentId}/${sanitizedFileName}`, file, {
       access: "public",
-      addRandomSuffix: false,
+      addRandomSuffix: true,
+    })
+
+    const uploadedAt = new Date().toISOString()
+    const revision = await addRevision(documentId, {
+      name: file.name,
+      type: file.type || "text/plain",
+      size: file.size,
+      url: blobResult.downloadUrl,
+      uploadedAt,
+      uploadedBy: user.id,
     })
 
-    // Store metadata in Vercel KV
-    await kv.set(`document:${documentId}`, {
+    // Store metadata in Vercel KV; the record mirrors the active revision.
+    // The uploader owns new documents only: revisions keep their owner, and owner-less team documents stay shared
+    const ownerless = !!existing && !existing.userId
+    const record = {
+      ...existing,
       id: documentId,
       name: file.name,
       filename: file.name,
-      type: file.type,
+      type: file.type || "text/plain",
       size: file.size,
       url: blobResult.downloadUrl,
-      uploadedAt: new Date().toISOString(),
+      uploadedAt: existing?.uploadedAt || uploadedAt,
       status: "uploaded",
-      userId: user.id,
-    })
+      userId: existing ? existing.userId : user.id,
+      visibility: ownerless ? "shared" : visibility || existing?.visibility || "private",
+      collectionId: collection.id,
+      activeRevision: revision.revision,
+      revisionCount: revision.revision,
+    }
+    await kv.set(`document:${documentId}`, record)
+    if (existing && (existing.collectionId || DEFAULT_COLLECTION_ID) !== collection.id) {
+      await unindexDocumentAccess({ id: documentId, userId: existing.userId, collectionId: existing.collectionId })
+    }
+    await indexDocumentAccess(record)
+    await registerDocumentName(collection.id, existing?.userId || user.id, file.name, documentId)
 
     return NextResponse.json({
       id: documentId,
       name: file.name,
       url: blobResult.downloadUrl,
       status: "uploaded",
+      collectionId: collection.id,
+      revision: revision.revision,
     })
   } catch (error) {
     if (error instanceof Error && error.message === "Unauthorized") {
       return NextResponse.json({ error: "Unauthorized", message: "Authentication required" }, { status: 401 })
     }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return NextResponse.json({ error: "Forbidden", message: "Your role does not allow this action" }, { status: 403 })
+    }
 
     console.error("Upload error:", error)
     return NextResponse.json({ error: "Failed to upload document" }, { status: 500 })
@@ -0,0 +1,69 @@
+import { requirePermission } from "../../../lib/auth-server"
+import { getFeedbackSummary, resolveFeedbackInput, saveFeedback, validateFeedbackInput } from "../../../lib/feedback/storage"
+
+export const runtime = "edge"
+
+export async function GET() {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("feedback:read")
+
+    const summary = await getFeedbackSummary(user.id)
+    return Response.json(summary)
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Feedback GET error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("search")
+
+    const body = await request.json().catch(() => null)
+    const { feedback, error } = validateFeedbackInput(body)
+
+    if (!feedback) {
+      return Response.json({ error }, { status: 400 })
+    }
+
+    // Chunks and query come from the stored answer, not from the client
+    const resolved = await resolveFeedbackInput(user.id, feedback)
+    if (!resolved) {
+      return Response.json({ error: "Conversation not found" }, { status: 404 })
+    }
+
+    const entry = await saveFeedback(user.id, resolved)
+    return Response.json({ feedback: entry })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Feedback POST error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
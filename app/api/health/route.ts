@@ -1,17 +1,13 @@
 import { validateEnv } from "../../../lib/utils/env"
-import { requireAuth } from "../../../lib/auth-server"
 import { debug } from "../../../lib/utils/debug"
 
 export const runtime = "edge"
 
+// Public for uptime monitors (allow-listed in middleware), so it reports only which services are configured
 export async function GET() {
   debug.log("[HEALTH API] Health check requested")
 
   try {
-    // Simple auth check - throws if unauthorized
-    const user = await requireAuth()
-    debug.log("[HEALTH API] User authenticated:", user.id)
-
     // Validate environment
     const envResult = validateEnv(["OPENAI", "PINECONE", "SUPABASE", "VERCEL_BLOB", "VERCEL_KV"])
     debug.log("[HEALTH API] Environment validation:", envResult)
@@ -20,10 +16,6 @@ export async function GET() {
       status: envResult.isValid ? "healthy" : "degraded",
       timestamp: new Date().toISOString(),
       environment: envResult.isValid ? "configured" : "missing_vars",
-      user: {
-        id: user.id,
-        email: user.email || "",
-      },
       services: {
         openai: !!process.env.OPENAI_API_KEY,
         pinecone: !!(process.env.PINECONE_API_KEY && process.env.PINECONE_INDEX_NAME && process.env.PINECONE_HOST),
@@ -39,13 +31,6 @@ export async function GET() {
   } catch (error) {
     debug.error("[HEALTH API] Error:", error)
 
-    if (error instanceof Error && error.message === "Unauthorized") {
-      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      })
-    }
-
     return Response.json(
       {
         status: "unhealthy",
@@ -5,7 +5,7 @@
  */
 export const runtime = "edge"
 
-import { requireAuth } from "../../../../lib/auth-server"
+import { requirePermission } from "../../../../lib/auth-server"
 import { cleanupOrphanedEntries } from "../../../../lib/documents/storage"
 import { debug } from "../../../../lib/utils/debug"
 import { kv } from "@vercel/kv"
@@ -14,8 +14,8 @@ export async function GET() {
   debug.log("[STORAGE HEALTH] Storage health check requested")
 
   try {
-    // Simple auth check - throws if unauthorized
-    const user = await requireAuth()
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("debug")
     debug.log("[STORAGE HEALTH] User authenticated:", user.id)
 
     // Get all document-related keys
@@ -72,6 +72,12 @@ export async function GET() {
         headers: { "Content-Type": "application/json" },
       })
     }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
 
     return Response.json(
       {
@@ -88,8 +94,8 @@ export async function POST() {
   debug.log("[STORAGE HEALTH] Storage cleanup requested")
 
   try {
-    // Simple auth check - throws if unauthorized
-    const user = await requireAuth()
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("debug")
     debug.log("[STORAGE HEALTH] User authenticated for cleanup:", user.id)
 
     // Perform cleanup
@@ -110,6 +116,12 @@ export async function POST() {
         headers: { "Content-Type": "application/json" },
       })
     }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
 
     return Response.json(
       {
@@ -0,0 +1,93 @@
+import { after } from "next/server"
+import { requirePermission } from "../../../../lib/auth-server"
+import { getJob, isJobRunnable, resumeJob, runJob } from "../../../../lib/jobs/ingestion"
+import { authorizeDocument } from "../../../../lib/documents/access"
+
+export const runtime = "edge"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("search")
+    const { id } = await params
+
+    const job = await getJob(id)
+    if (!job || (await authorizeDocument(job.documentId, user.id, "read")).error) {
+      return Response.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    // Polling doubles as the worker: continue a job whose last run ran out of time or is due for a retry
+    if (job.status === "queued" && (await isJobRunnable(id))) {
+      after(() => runJob(id))
+    }
+
+    return Response.json({ job })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Job GET error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Retries a failed job from its last checkpoint
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("documents:write")
+    const { id } = await params
+
+    const existing = await getJob(id)
+    if (!existing) {
+      return Response.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    // Only the document's owner can retry its ingestion
+    const { error } = await authorizeDocument(existing.documentId, user.id, "modify")
+    if (error) {
+      return Response.json({ error: error.status === 404 ? "Job not found" : error.message }, { status: error.status })
+    }
+
+    const job = await resumeJob(id)
+    if (!job) {
+      return Response.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    if (job.status === "queued") {
+      after(() => runJob(id))
+    }
+
+    return Response.json({ job }, { status: 202 })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
+    console.error("Job POST error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { runDueJobs } from "../../../../lib/jobs/ingestion"
+
+export const runtime = "edge"
+
+// Picks up jobs nobody is polling, e.g. after the browser tab was closed
+export async function GET(request: Request) {
+  // Vercel Cron sends CRON_SECRET as a bearer token
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    })
+  }
+
+  try {
+    const jobs = await runDueJobs()
+    console.log(`[JOBS] Cron ran ${jobs.length} job(s)`)
+
+    return Response.json({
+      jobs: jobs.map((job) => ({ id: job.id, status: job.status, percent: job.percent })),
+    })
+  } catch (error) {
+    console.error("Jobs cron error:", error)
+    return Response.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
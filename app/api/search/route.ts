@@ -1,32 +1,87 @@
-import { requireAuth } from "../../../lib/auth-server"
-import { createEmbedding } from "../../../lib/ai/embeddings"
+import { requirePermission, userHasPermission } from "../../../lib/auth-server"
+import { createEmbeddingProvider, validateIndexDimensions } from "../../../lib/ai/embeddings"
 import { searchVectors } from "../../../lib/pinecone/search"
-import { validateEnv } from "../../../lib/utils/env"
+import { createVectorStore, getVectorStoreType } from "../../../lib/vector-store/client"
+import { createKeywordIndex } from "../../../lib/pinecone/keyword-index"
+import { createReranker, isRerankerType } from "../../../lib/ai/rerank"
+import { buildSearchFilter, validateSearchFilters } from "../../../lib/pinecone/filters"
+import { getCollection } from "../../../lib/collections/storage"
+import { getReadableDocumentIds, withReadAccess } from "../../../lib/documents/access"
+import { getSettings } from "../../../lib/settings/storage"
+import { checkEnv, getServiceEnvGroups } from "../../../lib/utils/env"
 
 export const runtime = "edge"
 
 export async function POST(request: Request) {
   try {
-    // Validate environment
-    const envResult = validateEnv(["openai", "pinecone"])
-    if (!envResult.isValid) {
-      return Response.json({ error: "Environment configuration error" }, { status: 500 })
-    }
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("search")
 
-    // Simple auth check - throws if unauthorized
-    const user = await requireAuth()
-
-    const { query, limit = 5 } = await request.json()
+    // rerank overrides the configured reranker, e.g. when comparing stages from the debug panel
+    const { query, limit = 5, rerank, filters, collection: collectionId } = await request.json()
 
     if (!query) {
       return Response.json({ error: "Query is required" }, { status: 400 })
     }
+    if (rerank !== undefined && rerank !== null && !isRerankerType(rerank)) {
+      return Response.json({ error: "Rerank must be one of: none, heuristic, llm" }, { status: 400 })
+    }
+
+    // Optional scope: document ids, UE version range, technical terms
+    const filterResult = validateSearchFilters(filters)
+    if (filterResult.error) {
+      return Response.json({ error: filterResult.error }, { status: 400 })
+    }
+
+    // Knowledge base to search; the default collection when omitted
+    if (collectionId !== undefined && collectionId !== null && typeof collectionId !== "string") {
+      return Response.json({ error: "Collection must be a string" }, { status: 400 })
+    }
+    const collection = await getCollection(collectionId)
+    if (!collection) {
+      return Response.json({ error: "Unknown collection" }, { status: 400 })
+    }
+
+    // Only documents the user owns or that were shared with them are searched
+    const filter = withReadAccess(
+      buildSearchFilter(filterResult.filters),
+      await getReadableDocumentIds(user.id, collection.id),
+    )
+    if (!filter) {
+      return Response.json({ results: [] })
+    }
+
+    // Embedding provider, hybrid search and fusion are configured on the settings page
+    const settings = await getSettings()
+
+    // Validate environment for the configured embedding provider and vector store
+    const envResult = checkEnv(
+      getServiceEnvGroups({ embeddingProvider: settings.embeddingProvider, vectorStore: getVectorStoreType() }),
+    )
+    if (!envResult.isValid) {
+      console.error("Search API missing environment variables:", envResult.missing.join(", "))
+      return Response.json({ error: "Environment configuration error" }, { status: 500 })
+    }
 
     // Generate embedding for the search query
-    const embedding = await createEmbedding(query)
+    const vectorStore = createVectorStore()
+    const embeddingProvider = createEmbeddingProvider(settings)
+    await validateIndexDimensions(embeddingProvider, vectorStore)
+    const [embedding] = await embeddingProvider.embed([query])
 
     // Search for relevant documents
-    const results = await searchVectors(embedding, limit)
+    const results = await searchVectors(vectorStore, embedding, {
+      topK: limit,
+      filter,
+      query,
+      hybridSearch: settings.hybridSearch,
+      keywordIndex: createKeywordIndex(),
+      fusion: settings.fusionMethod,
+      alpha: settings.hybridAlpha,
+      // Only the debug tools may pick the reranker; everyone else gets the configured one
+      reranker: createReranker(rerank && userHasPermission(user, "debug") ? rerank : settings.reranker),
+      namespace: collection.namespace,
+    })
 
     return Response.json({ results })
   } catch (error) {
@@ -36,6 +91,12 @@ export async function POST(request: Request) {
         headers: { "Content-Type": "application/json" },
       })
     }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
 
     console.error("Search API error:", error)
     return Response.json({ error: "Internal server error" }, { status: 500 })
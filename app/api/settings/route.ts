@@ -1,15 +1,15 @@
-import { kv } from "@vercel/kv"
-import { requireAuth } from "../../../lib/auth-server"
+import { requirePermission } from "../../../lib/auth-server"
+import { getSettings, saveSettings } from "../../../lib/settings/storage"
 
 export const runtime = "edge"
 
 export async function GET() {
   try {
-    // Simple auth check - throws if unauthorized
-    const user = await requireAuth()
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("settings")
 
-    // Get settings from KV store
-    const settings = (await kv.get("app:settings")) || {}
+    // Complete settings, with defaults for anything never saved
+    const settings = await getSettings()
 
     return Response.json({ settings })
   } catch (error) {
@@ -19,6 +19,12 @@ export async function GET() {
         headers: { "Content-Type": "application/json" },
       })
     }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
 
     console.error("Settings GET error:", error)
     return Response.json({ error: "Internal server error" }, { status: 500 })
@@ -27,15 +33,18 @@ export async function GET() {
 
 export async function POST(request: Request) {
   try {
-    // Simple auth check - throws if unauthorized
-    const user = await requireAuth()
+    // Auth and role check - throws if unauthorized or forbidden
+    const user = await requirePermission("settings")
 
-    const settings = await request.json()
+    const input = await request.json().catch(() => null)
 
-    // Save settings to KV store
-    await kv.set("app:settings", settings)
+    // Validate against the settings schema and save
+    const { settings, errors } = await saveSettings(input)
+    if (errors) {
+      return Response.json({ error: "Invalid settings", errors }, { status: 400 })
+    }
 
-    return Response.json({ success: true })
+    return Response.json({ success: true, settings })
   } catch (error) {
     if (error instanceof Error && error.message === "Unauthorized") {
       return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
@@ -43,6 +52,12 @@ export async function POST(request: Request) {
         headers: { "Content-Type": "application/json" },
       })
     }
+    if (error instanceof Error && error.message === "Forbidden") {
+      return new Response(JSON.stringify({ error: "Forbidden", message: "Your role does not allow this action" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      })
+    }
 
     console.error("Settings POST error:", error)
     return Response.json({ error: "Internal server error" }, { status: 500 })
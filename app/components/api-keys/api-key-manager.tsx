@@ -0,0 +1,277 @@
+/**
+ * Purpose: API key management for the dashboard
+ * Logic:
+ * - Lists the user's keys with their scopes and when they were last used
+ * - Creates keys limited to the scopes the user's role allows, and shows the token once
+ * - Revokes keys; requests made with a revoked key fail immediately
+ * Runtime context: Client Component
+ */
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Check, Copy, KeyRound, Loader2, Plus, Trash2 } from "lucide-react"
+import { Alert, AlertDescription } from "../../../components/ui/alert"
+import { Badge } from "../../../components/ui/badge"
+import { Button } from "../../../components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../../components/ui/card"
+import { Checkbox } from "../../../components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../../../components/ui/dialog"
+import { Input } from "../../../components/ui/input"
+import { Label } from "../../../components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../components/ui/select"
+import { useToast } from "../../../hooks/use-toast"
+import { API_KEY_SCOPES, type ApiKey, type ApiKeyScope } from "../../../lib/api-keys/types"
+import { useRole } from "../auth/role-provider"
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+]
+
+export function ApiKeyManager({ initialKeys }: { initialKeys: ApiKey[] }) {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>(initialKeys)
+  const [isCreating, setIsCreating] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [name, setName] = useState("")
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["search"])
+  const [expiry, setExpiry] = useState("90")
+  const [newToken, setNewToken] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const { toast } = useToast()
+  const { can } = useRole()
+
+  // A key never grants more than the user's role
+  const allowedScopes = (Object.keys(API_KEY_SCOPES) as ApiKeyScope[]).filter((scope) =>
+    API_KEY_SCOPES[scope].permissions.every((permission) => can(permission)),
+  )
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((entry) => entry !== scope)))
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim() || scopes.length === 0) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          scopes,
+          expiresInDays: expiry === "never" ? undefined : Number(expiry),
+        }),
+        credentials: "include",
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to create API key: ${response.status}`)
+      }
+
+      setApiKeys((prev) => [data.apiKey, ...prev])
+      setNewToken(data.token)
+      setCopied(false)
+      setIsCreating(false)
+      setName("")
+      setScopes(["search"])
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create API key",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!window.confirm(`Revoke "${apiKey.name}"? Scripts using it will stop working.`)) return
+
+    try {
+      const response = await fetch(`/api/api-keys/${apiKey.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `Failed to revoke API key: ${response.status}`)
+      }
+
+      setApiKeys((prev) => prev.filter((entry) => entry.id !== apiKey.id))
+      toast({ title: "API key revoked", description: `${apiKey.name} can no longer be used.` })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke API key",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!newToken) return
+    await navigator.clipboard.writeText(newToken)
+    setCopied(true)
+  }
+
+  return (
+    <div className="space-y-4">
+      {newToken && (
+        <Alert>
+          <KeyRound className="h-4 w-4" />
+          <AlertDescription className="space-y-2">
+            <p>Copy your new API key now. It won't be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-muted px-2 py-1 text-xs">{newToken}</code>
+              <Button variant="outline" size="sm" onClick={handleCopy}>
+                {copied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+                {copied ? "Copied" : "Copy"}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Send it as <code>Authorization: Bearer &lt;key&gt;</code> to /api/search, /api/chat and the other routes
+              its scopes allow.
+            </p>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>API Keys</CardTitle>
+            <CardDescription>
+              Tokens for editor plugins and scripts. Each key acts as you, limited to its scopes.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setIsCreating(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New key
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {apiKeys.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground">No API keys yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {apiKeys.map((apiKey) => (
+                <li key={apiKey.id} className="flex items-center justify-between rounded-md border p-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{apiKey.name}</span>
+                      <code className="text-xs text-muted-foreground">{apiKey.prefix}…</code>
+                      {apiKey.scopes.map((scope) => (
+                        <Badge key={scope} variant="secondary">
+                          {API_KEY_SCOPES[scope].label}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Created {formatDistanceToNow(new Date(apiKey.createdAt), { addSuffix: true })} •{" "}
+                      {apiKey.lastUsedAt
+                        ? `last used ${formatDistanceToNow(new Date(apiKey.lastUsedAt), { addSuffix: true })}`
+                        : "never used"}
+                      {apiKey.expiresAt &&
+                        ` • expires ${formatDistanceToNow(new Date(apiKey.expiresAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(apiKey)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Revoke
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>New API key</DialogTitle>
+              <DialogDescription>
+                Name the key after where it's used, so you know what breaks if you revoke it.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Unreal Editor plugin"
+                maxLength={60}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {(Object.keys(API_KEY_SCOPES) as ApiKeyScope[]).map((scope) => (
+                <div key={scope} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`api-key-scope-${scope}`}
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    disabled={!allowedScopes.includes(scope)}
+                  />
+                  <div className="space-y-0.5">
+                    <Label htmlFor={`api-key-scope-${scope}`}>{API_KEY_SCOPES[scope].label}</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {API_KEY_SCOPES[scope].description}
+                      {!allowedScopes.includes(scope) && " (not available to your role)"}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="api-key-expiry">Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="api-key-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsCreating(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || !name.trim() || scopes.length === 0}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -7,7 +7,7 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { useToast } from "@/hooks/use-toast"
-import { signIn } from "@/lib/auth-client"
+import { getRedirectPath, signIn } from "@/lib/auth-client"
 import { ErrorBoundary } from "@/app/components/ui/error-boundary"
 import { AlertCircle } from "lucide-react"
 
@@ -29,7 +29,7 @@ export function AuthForm() {
         throw error
       }
 
-      router.push("/dashboard")
+      router.push(getRedirectPath())
       router.refresh()
     } catch (error) {
       toast({
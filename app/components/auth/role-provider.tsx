@@ -0,0 +1,35 @@
+/**
+ * Purpose: Current user's role for the dashboard
+ * Logic:
+ * - The dashboard layout resolves the role on the server and passes it down once
+ * - Components ask whether an action is allowed and hide what the role can't do;
+ *   the API routes enforce the same permissions
+ * Runtime context: Client Component
+ */
+"use client"
+
+import type React from "react"
+import { createContext, useCallback, useContext, useMemo } from "react"
+import { hasPermission, type Permission, type Role } from "../../../lib/roles"
+
+interface RoleContextValue {
+  role: Role
+  can: (permission: Permission) => boolean
+}
+
+const RoleContext = createContext<RoleContextValue | null>(null)
+
+export function RoleProvider({ role, children }: { role: Role; children: React.ReactNode }) {
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role])
+  const value = useMemo(() => ({ role, can }), [role, can])
+
+  return <RoleContext.Provider value={value}>{children}</RoleContext.Provider>
+}
+
+export function useRole(): RoleContextValue {
+  const context = useContext(RoleContext)
+  if (!context) {
+    throw new Error("useRole must be used within a RoleProvider")
+  }
+  return context
+}
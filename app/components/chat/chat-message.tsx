@@ -4,6 +4,8 @@
  * - Renders individual chat messages
  * - Formats user and assistant messages differently
  * - Renders markdown content
+ * - Turns [n] markers into citations backed by the message's source annotations
+ * - Shows feedback controls under answers to a user question
  * Runtime context: Client Component
  */
 "use client"
@@ -12,12 +14,40 @@ import type { Message } from "ai"
 import { User, Bot } from "lucide-react"
 import ReactMarkdown from "react-markdown"
 import { cn } from "../../../lib/utils"
+import { SOURCES_ANNOTATION_TYPE, type SourceAnnotation } from "../../../lib/ai/chat"
+import { Citation } from "./citation"
+import { MessageFeedback } from "./message-feedback"
 
 interface ChatMessageProps {
   message: Message
+  // The user question an assistant message answers; omitted for the welcome message
+  query?: string
+  conversationId?: string
 }
 
-export function ChatMessage({ message }: ChatMessageProps) {
+const CITATION_HREF_PREFIX = "#source-"
+
+function getSources(message: Message): SourceAnnotation[] {
+  const annotation = message.annotations?.find(
+    (item): item is { type: string; sources: SourceAnnotation[] } =>
+      !!item && typeof item === "object" && (item as { type?: string }).type === SOURCES_ANNOTATION_TYPE,
+  )
+  return annotation?.sources || []
+}
+
+// Rewrites [n] markers into links the markdown renderer hands to Citation, leaving code untouched
+function linkCitations(content: string): string {
+  return content
+    .split(/(```[\s\S]*?(?:```|$)|`[^`\n]*`)/)
+    .map((part, index) =>
+      index % 2 === 1 ? part : part.replace(/\[(\d+)\](?!\()/g, `[$1](${CITATION_HREF_PREFIX}$1)`),
+    )
+    .join("")
+}
+
+export function ChatMessage({ message, query, conversationId }: ChatMessageProps) {
+  const sources = getSources(message)
+
   return (
     <div className={cn("flex items-start gap-4 py-4", message.role === "user" ? "justify-end" : "justify-start")}>
       {message.role === "assistant" && (
@@ -32,7 +62,33 @@ export function ChatMessage({ message }: ChatMessageProps) {
         )}
       >
         {message.role === "assistant" ? (
-          <ReactMarkdown className="prose dark:prose-invert prose-sm">{message.content}</ReactMarkdown>
+          <div className="prose dark:prose-invert prose-sm">
+            <ReactMarkdown
+              components={{
+                a: ({ href, children }) => {
+                  if (href?.startsWith(CITATION_HREF_PREFIX)) {
+                    const index = Number(href.slice(CITATION_HREF_PREFIX.length))
+                    return <Citation index={index} source={sources.find((source) => source.index === index)} />
+                  }
+                  return (
+                    <a href={href} target="_blank" rel="noopener noreferrer">
+                      {children}
+                    </a>
+                  )
+                },
+              }}
+            >
+              {sources.length > 0 ? linkCitations(message.content) : message.content}
+            </ReactMarkdown>
+            {query && (
+              <MessageFeedback
+                messageId={message.id}
+                conversationId={conversationId}
+                query={query}
+                sources={sources}
+              />
+            )}
+          </div>
         ) : (
           <p>{message.content}</p>
         )}
@@ -1,29 +1,81 @@
 "use client"
 
-import { useRef, useEffect } from "react"
+import { useRef, useEffect, useState } from "react"
 import { useChat } from "ai/react"
+import type { Message } from "ai"
 import { ChatInput } from "./chat-input"
 import { ChatMessage } from "./chat-message"
+import { ScopePicker } from "./scope-picker"
+import { ModelPicker } from "./model-picker"
+import { useCollection } from "../collections/collection-provider"
 import { Card, CardContent, CardFooter } from "../../../components/ui/card"
 import { Skeleton } from "../../../components/ui/skeleton"
 import { Alert, AlertDescription, AlertTitle } from "../../../components/ui/alert"
 import { AlertCircle, Bot } from "lucide-react"
 import { ErrorBoundary, useErrorBoundaryWithToast } from "../ui/error-boundary"
 import { Button } from "../../../components/ui/button"
+import type { SearchFilters } from "../../../lib/pinecone/filters"
+
+interface ChatWindowProps {
+  // Stored thread to resume; omitted for a new conversation
+  conversationId?: string
+  initialMessages?: Message[]
+  // Chat model pinned on the stored thread, as "provider:model"
+  model?: string
+  // Called when the server assigns or updates the thread for this chat
+  onConversationChange?: (conversationId: string) => void
+}
+
+const WELCOME_MESSAGE: Message = {
+  id: "welcome",
+  role: "assistant",
+  content: "Hello! I can answer questions about your API documentation. What would you like to know?",
+}
+
+// The user question an assistant message answers, for feedback on that answer
+function findQuery(messages: Message[], index: number): string | undefined {
+  for (let i = index - 1; i >= 0; i--) {
+    if (messages[i].role === "user") return messages[i].content
+  }
+  return undefined
+}
 
 // Separate the chat content into its own component to be wrapped by ErrorBoundary
-function ChatContent() {
-  const { messages, handleSubmit, isLoading, error } = useChat({
+function ChatContent({ conversationId, initialMessages, model: initialModel, onConversationChange }: ChatWindowProps) {
+  // Retrieval scope sent with every message
+  const [filters, setFilters] = useState<SearchFilters>({})
+
+  // Unset until the user picks a model, so the settings default applies
+  const [model, setModel] = useState(initialModel)
+
+  // Answers come from the collection selected in the header
+  const { activeCollectionId } = useCollection()
+
+  // The server creates the thread on the first message and reports its id in a header
+  const [activeConversationId, setActiveConversationId] = useState(conversationId)
+
+  const { messages, append, isLoading, error } = useChat({
     api: "/api/chat",
-    initialMessages: [
-      {
-        id: "welcome",
-        role: "assistant",
-        content: "Hello! I can answer questions about your API documentation. What would you like to know?",
-      },
-    ],
+    id: conversationId,
+    body: { filters, conversationId: activeConversationId, model, collection: activeCollectionId },
+    initialMessages: initialMessages?.length ? initialMessages : [WELCOME_MESSAGE],
+    onResponse: (response) => {
+      const id = response.headers.get("X-Conversation-Id")
+      if (id) {
+        setActiveConversationId(id)
+      }
+    },
   })
 
+  // Report the thread after each completed turn so the sidebar can refresh titles and order
+  const wasLoading = useRef(false)
+  useEffect(() => {
+    if (wasLoading.current && !isLoading && activeConversationId) {
+      onConversationChange?.(activeConversationId)
+    }
+    wasLoading.current = isLoading
+  }, [isLoading, activeConversationId, onConversationChange])
+
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -34,7 +86,7 @@ function ChatContent() {
 
   return (
     <>
-      <CardContent className="p-4 overflow-y-auto h-[calc(100%-80px)]">
+      <CardContent className="p-4 overflow-y-auto h-[calc(100%-124px)]">
         {error && (
           <Alert variant="destructive" className="mb-4">
             <AlertCircle className="h-4 w-4" />
@@ -46,8 +98,13 @@ function ChatContent() {
         )}
 
         <div className="space-y-4">
-          {messages.map((message) => (
-            <ChatMessage key={message.id} message={message} />
+          {messages.map((message, index) => (
+            <ChatMessage
+              key={message.id}
+              message={message}
+              query={message.role === "assistant" ? findQuery(messages, index) : undefined}
+              conversationId={activeConversationId}
+            />
           ))}
 
           {isLoading && (
@@ -67,10 +124,14 @@ function ChatContent() {
         </div>
       </CardContent>
 
-      <CardFooter className="p-4 border-t">
+      <CardFooter className="p-4 border-t flex-col items-stretch gap-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <ScopePicker value={filters} onChange={setFilters} disabled={isLoading} />
+          <ModelPicker value={model} onChange={setModel} disabled={isLoading} />
+        </div>
         <ChatInput
           onSubmit={(message) => {
-            handleSubmit(new Event("submit") as any, { message })
+            append({ role: "user", content: message })
           }}
           isLoading={isLoading}
         />
@@ -80,7 +141,7 @@ function ChatContent() {
 }
 
 // Main ChatWindow component that includes the ErrorBoundary
-export function ChatWindow() {
+export function ChatWindow(props: ChatWindowProps) {
   const { handleError } = useErrorBoundaryWithToast()
 
   return (
@@ -100,7 +161,7 @@ export function ChatWindow() {
           </div>
         }
       >
-        <ChatContent />
+        <ChatContent {...props} />
       </ErrorBoundary>
     </Card>
   )
@@ -0,0 +1,122 @@
+/**
+ * Purpose: Chat page workspace
+ * Logic:
+ * - Pairs the conversation sidebar with the chat window
+ * - Loads stored threads, including their sources, when resumed
+ * - Remembers the last open thread across page reloads
+ * Runtime context: Client Component
+ */
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { Message } from "ai"
+import { ChatWindow } from "./chat-window"
+import { ConversationSidebar } from "./conversation-sidebar"
+import { useToast } from "../../../hooks/use-toast"
+import { SOURCES_ANNOTATION_TYPE } from "../../../lib/ai/chat"
+import type { ConversationWithMessages } from "../../../lib/conversations/storage"
+
+const LAST_CONVERSATION_KEY = "chat:lastConversationId"
+
+interface ChatSession {
+  // Remounts the chat window; stays stable when a new thread gets its id mid-stream
+  key: number
+  conversationId?: string
+  messages?: Message[]
+  model?: string
+}
+
+function toChatMessages(conversation: ConversationWithMessages): Message[] {
+  return conversation.messages.map((message) => ({
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    createdAt: new Date(message.createdAt),
+    annotations: message.sources ? [{ type: SOURCES_ANNOTATION_TYPE, sources: message.sources }] : undefined,
+  }))
+}
+
+export function ChatWorkspace() {
+  const [session, setSession] = useState<ChatSession>({ key: 0 })
+  const [refreshKey, setRefreshKey] = useState(0)
+  const { toast } = useToast()
+
+  const openConversation = useCallback(
+    async (conversationId: string, { silent = false } = {}) => {
+      try {
+        const response = await fetch(`/api/conversations/${conversationId}`, { credentials: "include" })
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? "Conversation not found" : "Failed to load conversation")
+        }
+
+        const { conversation } = await response.json()
+        setSession({
+          key: Date.now(),
+          conversationId,
+          messages: toChatMessages(conversation),
+          model: conversation.model,
+        })
+        localStorage.setItem(LAST_CONVERSATION_KEY, conversationId)
+      } catch (error) {
+        localStorage.removeItem(LAST_CONVERSATION_KEY)
+        if (!silent) {
+          toast({
+            title: "Error",
+            description: error instanceof Error ? error.message : "Failed to load conversation",
+            variant: "destructive",
+          })
+        }
+      }
+    },
+    [toast],
+  )
+
+  const startNewConversation = useCallback(() => {
+    localStorage.removeItem(LAST_CONVERSATION_KEY)
+    setSession({ key: Date.now() })
+  }, [])
+
+  // Resume the thread that was open before the page was reloaded
+  useEffect(() => {
+    const lastConversationId = localStorage.getItem(LAST_CONVERSATION_KEY)
+    if (lastConversationId) {
+      openConversation(lastConversationId, { silent: true })
+    }
+  }, [openConversation])
+
+  const handleConversationChange = useCallback((conversationId: string) => {
+    localStorage.setItem(LAST_CONVERSATION_KEY, conversationId)
+    setSession((prev) => ({ ...prev, conversationId }))
+    setRefreshKey((key) => key + 1)
+  }, [])
+
+  const handleDeleted = useCallback(
+    (conversationId: string) => {
+      if (conversationId === session.conversationId) {
+        startNewConversation()
+      }
+    },
+    [session.conversationId, startNewConversation],
+  )
+
+  return (
+    <div className="flex h-[calc(100vh-12rem)] gap-4">
+      <ConversationSidebar
+        activeId={session.conversationId}
+        refreshKey={refreshKey}
+        onSelect={(conversationId) => openConversation(conversationId)}
+        onNew={startNewConversation}
+        onDeleted={handleDeleted}
+      />
+      <div className="min-w-0 flex-1">
+        <ChatWindow
+          key={session.key}
+          conversationId={session.conversationId}
+          initialMessages={session.messages}
+          model={session.model}
+          onConversationChange={handleConversationChange}
+        />
+      </div>
+    </div>
+  )
+}
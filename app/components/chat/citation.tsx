@@ -0,0 +1,77 @@
+/**
+ * Purpose: Inline source citation
+ * Logic:
+ * - Renders an [n] marker as a badge that previews the cited chunk on hover
+ * - Links to the source document when its URL is known
+ * Runtime context: Client Component
+ */
+"use client"
+
+import { ExternalLink, FileText } from "lucide-react"
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "../../../components/ui/hover-card"
+import type { SourceAnnotation } from "../../../lib/ai/chat"
+
+interface CitationProps {
+  index: number
+  source?: SourceAnnotation
+}
+
+export function Citation({ index, source }: CitationProps) {
+  // Markers without a matching source (e.g. hallucinated numbers) stay plain text
+  if (!source) {
+    return <span>[{index}]</span>
+  }
+
+  return (
+    <HoverCard openDelay={150}>
+      <HoverCardTrigger asChild>
+        <a
+          href={source.url || undefined}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mx-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded bg-primary/10 px-1 align-super text-[10px] font-medium text-primary no-underline hover:bg-primary/20"
+        >
+          {index}
+        </a>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-96 space-y-2" align="start">
+        <SourceHeader source={source} />
+        <div className="max-h-48 overflow-y-auto whitespace-pre-wrap rounded bg-muted p-2 text-xs">{source.text}</div>
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>Score: {source.score.toFixed(3)}</span>
+          {source.url && (
+            <a
+              href={source.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 hover:text-foreground"
+            >
+              Open document
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+        </div>
+      </HoverCardContent>
+    </HoverCard>
+  )
+}
+
+export function SourceHeader({ source }: { source: SourceAnnotation }) {
+  return (
+    <div className="space-y-0.5">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <FileText className="h-4 w-4 shrink-0" />
+        <span className="truncate">
+          [{source.index}] {source.source}
+        </span>
+      </div>
+      {(source.section || source.page) && (
+        <div className="text-xs text-muted-foreground">
+          {source.section}
+          {source.section && source.page ? " • " : ""}
+          {source.page ? `Page ${source.page}` : ""}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+/**
+ * Purpose: Conversation thread list
+ * Logic:
+ * - Lists the user's stored conversations, most recent first
+ * - Supports starting, resuming, renaming and deleting threads
+ * Runtime context: Client Component
+ */
+"use client"
+
+import type React from "react"
+import { useCallback, useEffect, useState } from "react"
+import { Check, Loader2, MessageSquare, Pencil, Plus, Trash2, X } from "lucide-react"
+import { Button } from "../../../components/ui/button"
+import { Input } from "../../../components/ui/input"
+import { ScrollArea } from "../../../components/ui/scroll-area"
+import { useToast } from "../../../hooks/use-toast"
+import { cn } from "../../../lib/utils"
+import type { Conversation } from "../../../lib/conversations/storage"
+
+interface ConversationSidebarProps {
+  activeId?: string
+  // Changing this value reloads the list, e.g. after a turn is stored
+  refreshKey?: number
+  onSelect: (conversationId: string) => void
+  onNew: () => void
+  onDeleted: (conversationId: string) => void
+}
+
+export function ConversationSidebar({ activeId, refreshKey, onSelect, onNew, onDeleted }: ConversationSidebarProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editTitle, setEditTitle] = useState("")
+  const { toast } = useToast()
+
+  const loadConversations = useCallback(async () => {
+    try {
+      const response = await fetch("/api/conversations", { credentials: "include" })
+      if (!response.ok) {
+        throw new Error(`Failed to load conversations: ${response.status}`)
+      }
+      const data = await response.json()
+      setConversations(data.conversations || [])
+    } catch (error) {
+      console.error("Failed to load conversations:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadConversations()
+  }, [loadConversations, refreshKey])
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id)
+    setEditTitle(conversation.title)
+  }
+
+  const saveRename = async (e?: React.FormEvent) => {
+    e?.preventDefault()
+    if (!editingId || !editTitle.trim()) return
+
+    try {
+      const response = await fetch(`/api/conversations/${editingId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title: editTitle }),
+        credentials: "include",
+      })
+      if (!response.ok) {
+        throw new Error("Failed to rename conversation")
+      }
+
+      const { conversation } = await response.json()
+      setConversations((prev) => prev.map((item) => (item.id === conversation.id ? conversation : item)))
+      setEditingId(null)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to rename conversation",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const remove = async (conversation: Conversation) => {
+    if (!window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) return
+
+    try {
+      const response = await fetch(`/api/conversations/${conversation.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      })
+      if (!response.ok) {
+        throw new Error("Failed to delete conversation")
+      }
+
+      setConversations((prev) => prev.filter((item) => item.id !== conversation.id))
+      onDeleted(conversation.id)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete conversation",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="flex h-full w-64 shrink-0 flex-col rounded-lg border bg-background">
+      <div className="border-b p-3">
+        <Button variant="outline" className="w-full justify-start" onClick={onNew}>
+          <Plus className="mr-2 h-4 w-4" />
+          New conversation
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="space-y-1 p-2">
+          {isLoading && (
+            <div className="flex items-center justify-center py-6 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+            </div>
+          )}
+
+          {!isLoading && conversations.length === 0 && (
+            <p className="px-2 py-6 text-center text-sm text-muted-foreground">No conversations yet.</p>
+          )}
+
+          {conversations.map((conversation) =>
+            editingId === conversation.id ? (
+              <form key={conversation.id} onSubmit={saveRename} className="flex items-center gap-1 px-1">
+                <Input
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onKeyDown={(e) => e.key === "Escape" && setEditingId(null)}
+                  className="h-8 text-sm"
+                  autoFocus
+                />
+                <Button type="submit" variant="ghost" size="icon" className="h-8 w-8">
+                  <Check className="h-4 w-4" />
+                  <span className="sr-only">Save title</span>
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingId(null)}>
+                  <X className="h-4 w-4" />
+                  <span className="sr-only">Cancel rename</span>
+                </Button>
+              </form>
+            ) : (
+              <div
+                key={conversation.id}
+                className={cn(
+                  "group flex items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted",
+                  activeId === conversation.id && "bg-secondary",
+                )}
+              >
+                <button
+                  type="button"
+                  className="flex min-w-0 flex-1 items-center gap-2 text-left"
+                  onClick={() => onSelect(conversation.id)}
+                >
+                  <MessageSquare className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate">{conversation.title}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {new Date(conversation.updatedAt).toLocaleString()}
+                    </span>
+                  </span>
+                </button>
+                <div className="hidden shrink-0 items-center group-hover:flex">
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startRename(conversation)}>
+                    <Pencil className="h-3.5 w-3.5" />
+                    <span className="sr-only">Rename conversation</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => remove(conversation)}>
+                    <Trash2 className="h-3.5 w-3.5" />
+                    <span className="sr-only">Delete conversation</span>
+                  </Button>
+                </div>
+              </div>
+            ),
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+/**
+ * Purpose: Answer feedback controls
+ * Logic:
+ * - Lists the answer's sources with a "not relevant" toggle per citation
+ * - Adds thumbs up/down for the answer as a whole
+ * - Sends the full feedback state with the query and retrieved chunks on every change
+ * Runtime context: Client Component
+ */
+"use client"
+
+import { useState } from "react"
+import { Ban, ThumbsDown, ThumbsUp } from "lucide-react"
+import { Button } from "../../../components/ui/button"
+import { useToast } from "../../../hooks/use-toast"
+import { cn } from "../../../lib/utils"
+import type { SourceAnnotation } from "../../../lib/ai/chat"
+import type { FeedbackRating } from "../../../lib/feedback/storage"
+import { Citation } from "./citation"
+
+interface MessageFeedbackProps {
+  messageId: string
+  conversationId?: string
+  // The user question the answer responded to
+  query: string
+  sources: SourceAnnotation[]
+}
+
+export function MessageFeedback({ messageId, conversationId, query, sources }: MessageFeedbackProps) {
+  const [rating, setRating] = useState<FeedbackRating | null>(null)
+  const [irrelevantIds, setIrrelevantIds] = useState<string[]>([])
+  const { toast } = useToast()
+
+  const submit = async (nextRating: FeedbackRating | null, nextIrrelevantIds: string[]) => {
+    const previous = { rating, irrelevantIds }
+    setRating(nextRating)
+    setIrrelevantIds(nextIrrelevantIds)
+
+    try {
+      const response = await fetch("/api/feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          messageId,
+          conversationId,
+          query,
+          rating: nextRating,
+          irrelevantChunkIds: nextIrrelevantIds,
+          chunks: sources.map(({ id, documentId, source, score }) => ({ id, documentId, source, score })),
+        }),
+        credentials: "include",
+      })
+      if (!response.ok) {
+        throw new Error("Failed to save feedback")
+      }
+    } catch (error) {
+      setRating(previous.rating)
+      setIrrelevantIds(previous.irrelevantIds)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save feedback",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const toggleRating = (value: FeedbackRating) => submit(rating === value ? null : value, irrelevantIds)
+
+  const toggleIrrelevant = (chunkId: string) =>
+    submit(
+      rating,
+      irrelevantIds.includes(chunkId) ? irrelevantIds.filter((id) => id !== chunkId) : [...irrelevantIds, chunkId],
+    )
+
+  return (
+    <div className="not-prose mt-2 space-y-2 border-t pt-2 text-xs text-muted-foreground">
+      {sources.length > 0 && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          <span>Sources:</span>
+          {sources.map((source) => {
+            const irrelevant = irrelevantIds.includes(source.id)
+            return (
+              <span key={source.id} className="group inline-flex items-center">
+                <Citation index={source.index} source={source} />
+                <span className={cn("max-w-[12rem] truncate", irrelevant && "line-through opacity-60")}>
+                  {source.source}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => toggleIrrelevant(source.id)}
+                  title={irrelevant ? "Mark as relevant" : "Mark as not relevant"}
+                  className={cn(
+                    "ml-1 rounded p-0.5 hover:text-destructive",
+                    irrelevant ? "text-destructive" : "invisible group-hover:visible",
+                  )}
+                >
+                  <Ban className="h-3 w-3" />
+                  <span className="sr-only">{irrelevant ? "Mark as relevant" : "Mark as not relevant"}</span>
+                </button>
+              </span>
+            )
+          })}
+        </div>
+      )}
+      <div className="flex items-center gap-1">
+        <span className="mr-1">Was this helpful?</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn("h-6 w-6", rating === "up" && "text-primary")}
+          onClick={() => toggleRating("up")}
+        >
+          <ThumbsUp className={cn("h-3.5 w-3.5", rating === "up" && "fill-current")} />
+          <span className="sr-only">Helpful</span>
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn("h-6 w-6", rating === "down" && "text-destructive")}
+          onClick={() => toggleRating("down")}
+        >
+          <ThumbsDown className={cn("h-3.5 w-3.5", rating === "down" && "fill-current")} />
+          <span className="sr-only">Not helpful</span>
+        </Button>
+      </div>
+    </div>
+  )
+}
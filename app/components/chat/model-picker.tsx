@@ -0,0 +1,69 @@
+/**
+ * Purpose: Chat model picker
+ * Logic:
+ * - Lists the chat models the server is configured for
+ * - Shows the settings default until the user picks a model for the conversation
+ * Runtime context: Client Component
+ */
+"use client"
+
+import { useEffect, useState } from "react"
+import { Bot } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../components/ui/select"
+import type { ChatModelOption } from "../../../lib/ai/chat-providers"
+
+interface ModelPickerProps {
+  // "provider:model"; undefined means the settings default
+  value?: string
+  onChange: (modelId: string) => void
+  disabled?: boolean
+}
+
+export function ModelPicker({ value, onChange, disabled }: ModelPickerProps) {
+  const [models, setModels] = useState<ChatModelOption[]>([])
+  const [defaultModel, setDefaultModel] = useState<string>()
+
+  useEffect(() => {
+    const loadModels = async () => {
+      try {
+        const response = await fetch("/api/chat/models", { credentials: "include" })
+        if (!response.ok) {
+          throw new Error(`Failed to load models: ${response.status}`)
+        }
+        const data = await response.json()
+        setModels(data.models || [])
+        setDefaultModel(data.defaultModel)
+      } catch (error) {
+        console.error("Failed to load chat models:", error)
+      }
+    }
+
+    loadModels()
+  }, [])
+
+  const selected = value || defaultModel
+  // A model pinned earlier may no longer be in the list; keep it selectable
+  const options =
+    selected && !models.some((model) => model.id === selected)
+      ? [...models, { id: selected, label: selected.slice(selected.indexOf(":") + 1) } as ChatModelOption]
+      : models
+
+  if (options.length === 0) return null
+
+  return (
+    <Select value={selected} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className="h-8 w-auto gap-2 text-sm">
+        <Bot className="h-4 w-4" />
+        <SelectValue placeholder="Model" />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((model) => (
+          <SelectItem key={model.id} value={model.id}>
+            {model.label}
+            {model.id === defaultModel && <span className="ml-1 text-muted-foreground">(default)</span>}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
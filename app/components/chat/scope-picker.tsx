@@ -0,0 +1,193 @@
+/**
+ * Purpose: Chat retrieval scope picker
+ * Logic:
+ * - Lets the user restrict retrieval to documents, a UE version range or technical terms
+ * - Produces the filters object accepted by /api/chat and /api/search
+ * Runtime context: Client Component
+ */
+"use client"
+
+import { useEffect, useState } from "react"
+import { Filter, X } from "lucide-react"
+import { Button } from "../../../components/ui/button"
+import { Checkbox } from "../../../components/ui/checkbox"
+import { Input } from "../../../components/ui/input"
+import { Label } from "../../../components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "../../../components/ui/popover"
+import { ScrollArea } from "../../../components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../components/ui/select"
+import type { SearchFilters } from "../../../lib/pinecone/filters"
+
+interface ScopePickerProps {
+  value: SearchFilters
+  onChange: (filters: SearchFilters) => void
+  disabled?: boolean
+}
+
+interface DocumentOption {
+  id: string
+  name: string
+}
+
+const UE_VERSIONS = ["5.0", "5.1", "5.2", "5.3", "5.4", "5.5"]
+const ANY_VERSION = "any"
+
+export function describeScope(filters: SearchFilters): string {
+  const parts: string[] = []
+
+  if (filters.documentIds?.length) {
+    parts.push(`${filters.documentIds.length} document${filters.documentIds.length === 1 ? "" : "s"}`)
+  }
+
+  if (filters.version?.min || filters.version?.max) {
+    const { min, max } = filters.version
+    parts.push(min && max ? `UE ${min}–${max}` : min ? `UE ${min}+` : `UE ≤ ${max}`)
+  }
+
+  if (filters.technicalTerms?.length) {
+    parts.push(filters.technicalTerms.join(", "))
+  }
+
+  return parts.length > 0 ? parts.join(" • ") : "All documents"
+}
+
+export function ScopePicker({ value, onChange, disabled }: ScopePickerProps) {
+  const [documents, setDocuments] = useState<DocumentOption[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [termsInput, setTermsInput] = useState(value.technicalTerms?.join(", ") || "")
+
+  useEffect(() => {
+    const loadDocuments = async () => {
+      setIsLoading(true)
+      try {
+        const response = await fetch("/api/documents", { credentials: "include" })
+        if (!response.ok) return
+        const data = await response.json()
+        setDocuments((data.documents || []).map((doc: DocumentOption) => ({ id: doc.id, name: doc.name })))
+      } catch (error) {
+        console.error("Failed to load documents for scope picker:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadDocuments()
+  }, [])
+
+  const update = (changes: Partial<SearchFilters>) => {
+    const next = { ...value, ...changes }
+
+    // Drop empty fields so an unscoped chat sends no filters at all
+    if (!next.documentIds?.length) delete next.documentIds
+    if (!next.technicalTerms?.length) delete next.technicalTerms
+    if (!next.version?.min && !next.version?.max) delete next.version
+
+    onChange(next)
+  }
+
+  const toggleDocument = (documentId: string, checked: boolean) => {
+    const selected = new Set(value.documentIds || [])
+    if (checked) {
+      selected.add(documentId)
+    } else {
+      selected.delete(documentId)
+    }
+    update({ documentIds: Array.from(selected) })
+  }
+
+  const setVersion = (bound: "min" | "max", version: string) => {
+    update({ version: { ...value.version, [bound]: version === ANY_VERSION ? undefined : version } })
+  }
+
+  const applyTerms = () => {
+    const terms = termsInput
+      .split(",")
+      .map((term) => term.trim().toLowerCase())
+      .filter(Boolean)
+    update({ technicalTerms: terms })
+  }
+
+  const clear = () => {
+    setTermsInput("")
+    onChange({})
+  }
+
+  const isScoped = Object.keys(value).length > 0
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={disabled}>
+            <Filter className="mr-2 h-4 w-4" />
+            Scope: {describeScope(value)}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-80 space-y-4">
+          <div className="space-y-2">
+            <Label>Documents</Label>
+            <ScrollArea className="h-40 rounded-md border p-2">
+              {isLoading && <p className="text-xs text-muted-foreground">Loading documents...</p>}
+              {!isLoading && documents.length === 0 && (
+                <p className="text-xs text-muted-foreground">No documents uploaded yet.</p>
+              )}
+              {documents.map((doc) => (
+                <label key={doc.id} className="flex items-center gap-2 py-1 text-sm">
+                  <Checkbox
+                    checked={value.documentIds?.includes(doc.id) || false}
+                    onCheckedChange={(checked) => toggleDocument(doc.id, checked === true)}
+                  />
+                  <span className="truncate">{doc.name}</span>
+                </label>
+              ))}
+            </ScrollArea>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Unreal Engine version</Label>
+            <div className="flex items-center gap-2">
+              {(["min", "max"] as const).map((bound) => (
+                <Select
+                  key={bound}
+                  value={value.version?.[bound] || ANY_VERSION}
+                  onValueChange={(version) => setVersion(bound, version)}
+                >
+                  <SelectTrigger aria-label={bound === "min" ? "Minimum version" : "Maximum version"}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_VERSION}>{bound === "min" ? "Any from" : "Any to"}</SelectItem>
+                    {UE_VERSIONS.map((version) => (
+                      <SelectItem key={version} value={version}>
+                        {version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="scope-terms">Technical terms</Label>
+            <Input
+              id="scope-terms"
+              value={termsInput}
+              onChange={(e) => setTermsInput(e.target.value)}
+              onBlur={applyTerms}
+              onKeyDown={(e) => e.key === "Enter" && applyTerms()}
+              placeholder="e.g. niagara, lumen"
+            />
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {isScoped && (
+        <Button variant="ghost" size="sm" onClick={clear} disabled={disabled}>
+          <X className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  )
+}
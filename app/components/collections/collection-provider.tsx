@@ -0,0 +1,83 @@
+/**
+ * Purpose: Active collection for the dashboard
+ * Logic:
+ * - Loads the collection list once and shares it with every dashboard page
+ * - Remembers the active collection in localStorage across reloads
+ * - Falls back to the default collection when the remembered one no longer exists
+ * Runtime context: Client Component
+ */
+"use client"
+
+import type React from "react"
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react"
+import { DEFAULT_COLLECTION_ID, type Collection } from "../../../lib/collections/types"
+
+export interface CollectionSummary extends Collection {
+  documentCount: number
+  // Missing when the vector store could not be reached
+  vectorCount?: number
+}
+
+interface CollectionContextValue {
+  collections: CollectionSummary[]
+  activeCollectionId: string
+  activeCollection?: CollectionSummary
+  setActiveCollectionId: (collectionId: string) => void
+  refresh: () => Promise<void>
+}
+
+const ACTIVE_COLLECTION_KEY = "collections:active"
+
+const CollectionContext = createContext<CollectionContextValue | null>(null)
+
+export function CollectionProvider({ children }: { children: React.ReactNode }) {
+  const [collections, setCollections] = useState<CollectionSummary[]>([])
+  const [activeCollectionId, setActiveId] = useState(DEFAULT_COLLECTION_ID)
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch("/api/collections", { credentials: "include" })
+      if (!response.ok) {
+        throw new Error(`Failed to load collections: ${response.status}`)
+      }
+      const data = await response.json()
+      setCollections(data.collections || [])
+    } catch (error) {
+      console.error("Failed to load collections:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    setActiveId(localStorage.getItem(ACTIVE_COLLECTION_KEY) || DEFAULT_COLLECTION_ID)
+    refresh()
+  }, [refresh])
+
+  const setActiveCollectionId = useCallback((collectionId: string) => {
+    setActiveId(collectionId)
+    localStorage.setItem(ACTIVE_COLLECTION_KEY, collectionId)
+  }, [])
+
+  const value = useMemo(() => {
+    // Until the list loads, trust the remembered id; afterwards drop ids that were deleted
+    const known = collections.length === 0 || collections.some((collection) => collection.id === activeCollectionId)
+    const resolvedId = known ? activeCollectionId : DEFAULT_COLLECTION_ID
+
+    return {
+      collections,
+      activeCollectionId: resolvedId,
+      activeCollection: collections.find((collection) => collection.id === resolvedId),
+      setActiveCollectionId,
+      refresh,
+    }
+  }, [collections, activeCollectionId, setActiveCollectionId, refresh])
+
+  return <CollectionContext.Provider value={value}>{children}</CollectionContext.Provider>
+}
+
+export function useCollection(): CollectionContextValue {
+  const context = useContext(CollectionContext)
+  if (!context) {
+    throw new Error("useCollection must be used within a CollectionProvider")
+  }
+  return context
+}
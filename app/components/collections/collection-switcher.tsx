@@ -0,0 +1,190 @@
+/**
+ * Purpose: Collection switcher for the dashboard header
+ * Logic:
+ * - Selects the collection that uploads, document lists, search and chat use
+ * - Creates new collections and deletes empty ones, for roles allowed to manage collections
+ * Runtime context: Client Component
+ */
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Library, Loader2, Plus, Trash2 } from "lucide-react"
+import { Button } from "../../../components/ui/button"
+import { Input } from "../../../components/ui/input"
+import { Label } from "../../../components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../../../components/ui/dialog"
+import { useToast } from "../../../hooks/use-toast"
+import { DEFAULT_COLLECTION_ID } from "../../../lib/collections/types"
+import { useCollection } from "./collection-provider"
+import { useRole } from "../auth/role-provider"
+
+export function CollectionSwitcher() {
+  const { collections, activeCollectionId, activeCollection, setActiveCollectionId, refresh } = useCollection()
+  const [isCreating, setIsCreating] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const { toast } = useToast()
+  const { can } = useRole()
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/collections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, description }),
+        credentials: "include",
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to create collection: ${response.status}`)
+      }
+
+      await refresh()
+      setActiveCollectionId(data.collection.id)
+      setIsCreating(false)
+      setName("")
+      setDescription("")
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create collection",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!activeCollection || activeCollection.id === DEFAULT_COLLECTION_ID) return
+    if (!window.confirm(`Delete the "${activeCollection.name}" collection?`)) return
+
+    try {
+      const remove = (cascade: boolean) =>
+        fetch(`/api/collections/${activeCollection.id}${cascade ? "?cascade=true" : ""}`, {
+          method: "DELETE",
+          credentials: "include",
+        })
+
+      let response = await remove(false)
+      if (response.status === 409) {
+        // Admins may delete a collection together with the documents it still holds
+        const data = await response.clone().json().catch(() => ({}))
+        if (data.canCascade && window.confirm(`Also delete the ${data.documents} documents in this collection?`)) {
+          response = await remove(true)
+        }
+      }
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `Failed to delete collection: ${response.status}`)
+      }
+
+      setActiveCollectionId(DEFAULT_COLLECTION_ID)
+      await refresh()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete collection",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={activeCollectionId} onValueChange={setActiveCollectionId}>
+        <SelectTrigger className="h-9 w-52 gap-2">
+          <Library className="h-4 w-4 shrink-0" />
+          <SelectValue placeholder="Collection" />
+        </SelectTrigger>
+        <SelectContent>
+          {collections.map((collection) => (
+            <SelectItem key={collection.id} value={collection.id}>
+              {collection.name}
+              <span className="ml-1 text-muted-foreground">
+                ({collection.documentCount} {collection.documentCount === 1 ? "doc" : "docs"})
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {can("collections:write") && (
+        <Button variant="ghost" size="icon" onClick={() => setIsCreating(true)} title="New collection">
+          <Plus className="h-4 w-4" />
+          <span className="sr-only">New collection</span>
+        </Button>
+      )}
+
+      {can("collections:write") && activeCollectionId !== DEFAULT_COLLECTION_ID && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleDelete}
+          disabled={!!activeCollection?.documentCount}
+          title={activeCollection?.documentCount ? "Only empty collections can be deleted" : "Delete collection"}
+        >
+          <Trash2 className="h-4 w-4" />
+          <span className="sr-only">Delete collection</span>
+        </Button>
+      )}
+
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>New collection</DialogTitle>
+              <DialogDescription>
+                A separate knowledge base, such as one engine version's docs or a studio wiki. Searches and chats
+                only use the selected collection.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="collection-name">Name</Label>
+              <Input
+                id="collection-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. UE 5.4 Docs"
+                maxLength={60}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="collection-description">Description</Label>
+              <Input
+                id="collection-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsCreating(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || !name.trim()}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
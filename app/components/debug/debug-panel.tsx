@@ -8,6 +8,7 @@ import { Separator } from "../../../components/ui/separator"
 import { CustomBadge } from "../ui/custom-badge"
 import { AlertCircle, CheckCircle, RefreshCw, XCircle } from "lucide-react"
 import { useToast } from "../../../components/ui/use-toast"
+import { RetrievalDebug } from "./retrieval-debug"
 
 interface DebugPanelProps {
   initialTab?: string
@@ -20,6 +21,7 @@ interface ServiceTest {
   stats?: {
     totalVectors?: number
     dimension?: number
+    namespaces?: Record<string, number>
   }
 }
 
@@ -107,8 +109,9 @@ export function DebugPanel({ initialTab = "health" }: DebugPanelProps) {
       </CardHeader>
       <CardContent>
         <Tabs defaultValue={initialTab}>
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="health">Health Checks</TabsTrigger>
+            <TabsTrigger value="retrieval">Retrieval</TabsTrigger>
             <TabsTrigger value="config">Configuration</TabsTrigger>
           </TabsList>
 
@@ -173,6 +176,11 @@ export function DebugPanel({ initialTab = "health" }: DebugPanelProps) {
                               <div>
                                 <div>Total Vectors: {data.stats.totalVectors}</div>
                                 <div>Dimension: {data.stats.dimension}</div>
+                                {Object.entries(data.stats.namespaces || {}).map(([namespace, count]) => (
+                                  <div key={namespace}>
+                                    Namespace {namespace}: {count} vectors
+                                  </div>
+                                ))}
                               </div>
                             )}
                           </div>
@@ -194,6 +202,21 @@ export function DebugPanel({ initialTab = "health" }: DebugPanelProps) {
             </div>
           </TabsContent>
 
+          <TabsContent value="retrieval" className="pt-4">
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-lg font-medium">Retrieval Scores</h3>
+                <p className="text-sm text-muted-foreground">
+                  Compare vector, keyword and rerank scores for a query to tune the search pipeline
+                </p>
+              </div>
+
+              <Separator />
+
+              <RetrievalDebug />
+            </div>
+          </TabsContent>
+
           <TabsContent value="config" className="pt-4">
             <div className="space-y-4">
               <div>
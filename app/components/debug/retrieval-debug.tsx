@@ -0,0 +1,155 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "../../../components/ui/button"
+import { Input } from "../../../components/ui/input"
+import { Label } from "../../../components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../components/ui/table"
+import { AlertCircle, RefreshCw, Search } from "lucide-react"
+import { useCollection } from "../collections/collection-provider"
+
+interface RetrievalResult {
+  id: string
+  score: number
+  text: string
+  vectorScore?: number
+  keywordScore?: number
+  rerankScore?: number
+  metadata?: Record<string, any>
+}
+
+function formatScore(score?: number) {
+  return score === undefined ? "—" : score.toFixed(3)
+}
+
+// Runs a search with a chosen reranker and shows each stage's score side by side
+export function RetrievalDebug() {
+  const [query, setQuery] = useState("")
+  const [limit, setLimit] = useState(5)
+  const [reranker, setReranker] = useState("none")
+  const [results, setResults] = useState<RetrievalResult[] | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { activeCollectionId } = useCollection()
+
+  const runSearch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!query.trim()) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/search", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query, limit, rerank: reranker, collection: activeCollectionId }),
+        credentials: "include",
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || errorData.error || `Search failed with status: ${response.status}`)
+      }
+
+      const data = await response.json()
+      setResults(data.results || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unknown error occurred")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={runSearch} className="grid gap-3 md:grid-cols-[1fr_100px_160px_auto] md:items-end">
+        <div>
+          <Label htmlFor="debug-query">Query</Label>
+          <Input
+            id="debug-query"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="e.g. r.Lumen.HardwareRayTracing"
+          />
+        </div>
+        <div>
+          <Label htmlFor="debug-limit">Top K</Label>
+          <Input
+            id="debug-limit"
+            type="number"
+            min={1}
+            max={20}
+            value={limit}
+            onChange={(e) => setLimit(Number.parseInt(e.target.value) || 1)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="debug-reranker">Reranker</Label>
+          <Select value={reranker} onValueChange={setReranker}>
+            <SelectTrigger id="debug-reranker">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="heuristic">Heuristic</SelectItem>
+              <SelectItem value="llm">LLM</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button type="submit" disabled={isLoading || !query.trim()}>
+          {isLoading ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+          Search
+        </Button>
+      </form>
+
+      {error && (
+        <div className="rounded-md bg-destructive/15 p-3 text-destructive">
+          <div className="flex items-center">
+            <AlertCircle className="h-4 w-4 mr-2" />
+            <span>{error}</span>
+          </div>
+        </div>
+      )}
+
+      {results && results.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground">No results for this query.</div>
+      )}
+
+      {results && results.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">#</TableHead>
+              <TableHead>Chunk</TableHead>
+              <TableHead className="text-right">Vector</TableHead>
+              <TableHead className="text-right">Keyword</TableHead>
+              <TableHead className="text-right">Rerank</TableHead>
+              <TableHead className="text-right">Final</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {results.map((result, index) => (
+              <TableRow key={result.id}>
+                <TableCell>{index + 1}</TableCell>
+                <TableCell className="max-w-md">
+                  <div className="font-medium truncate">{result.metadata?.source || result.id}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {result.metadata?.headingPath || result.metadata?.section || "—"}
+                  </div>
+                  <div className="text-xs text-muted-foreground line-clamp-2">{result.text}</div>
+                </TableCell>
+                <TableCell className="text-right font-mono text-xs">{formatScore(result.vectorScore)}</TableCell>
+                <TableCell className="text-right font-mono text-xs">{formatScore(result.keywordScore)}</TableCell>
+                <TableCell className="text-right font-mono text-xs">{formatScore(result.rerankScore)}</TableCell>
+                <TableCell className="text-right font-mono text-xs">{formatScore(result.score)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,15 @@
 "use client"
 
-import { useState } from "react"
+import type React from "react"
+import { useRef, useState } from "react"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "../../../components/ui/card"
 import { Button } from "../../../components/ui/button"
 import { Badge } from "../../../components/ui/badge"
-import { FileText, Trash2, RefreshCw, AlertCircle, CheckCircle } from "lucide-react"
+import { FileText, Trash2, RefreshCw, AlertCircle, CheckCircle, Upload, History, Lock, Users } from "lucide-react"
 import { formatDistanceToNow } from "date-fns"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "../../../components/ui/tooltip"
+import type { DocumentRevision } from "../../../lib/documents/revisions"
+import { RevisionHistory } from "./revision-history"
 
 interface DocumentCardProps {
   id: string
@@ -15,8 +18,19 @@ interface DocumentCardProps {
   createdAt: Date | string
   status: "processing" | "indexed" | "error" | "completed" | "uploaded"
   chunks?: number
+  // Active revision number and how many revisions exist
+  revision?: number
+  revisionCount?: number
+  // Chunk changes from the last re-index
+  lastChanges?: { added: number; changed: number; removed: number; unchanged: number }
+  visibility?: "private" | "shared"
+  // False for documents shared by another user, which are read-only
+  canEdit?: boolean
   onDelete?: (id: string) => void
   onRefresh?: (id: string) => void
+  onUploadRevision?: (id: string, file: File) => void
+  onRevisionRestored?: (id: string, revision: DocumentRevision) => void
+  onVisibilityChange?: (id: string, visibility: "private" | "shared") => void
 }
 
 export function DocumentCard({
@@ -26,11 +40,29 @@ export function DocumentCard({
   createdAt,
   status,
   chunks = 0,
+  revision,
+  revisionCount,
+  lastChanges,
+  visibility = "private",
+  canEdit = true,
   onDelete,
   onRefresh,
+  onUploadRevision,
+  onRevisionRestored,
+  onVisibilityChange,
 }: DocumentCardProps) {
   const [isDeleting, setIsDeleting] = useState(false)
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const revisionInputRef = useRef<HTMLInputElement>(null)
+
+  const handleRevisionSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (file && onUploadRevision) {
+      onUploadRevision(id, file)
+    }
+  }
 
   const handleDelete = async () => {
     if (!onDelete) return
@@ -151,24 +183,83 @@ export function DocumentCard({
         <div className="flex items-center text-xs text-muted-foreground">
           <FileText className="mr-1 h-3 w-3" />
           <span>{chunks} chunks</span>
+          {visibility === "shared" && <span className="ml-2">• shared{!canEdit && " with you"}</span>}
+          {revisionCount !== undefined && revisionCount > 1 && (
+            <span className="ml-2">
+              • revision {revision ?? revisionCount} of {revisionCount}
+            </span>
+          )}
+          {lastChanges && (lastChanges.added > 0 || lastChanges.changed > 0 || lastChanges.removed > 0) && (
+            <span className="ml-2">
+              (last update: +{lastChanges.added} ~{lastChanges.changed} -{lastChanges.removed})
+            </span>
+          )}
         </div>
       </CardContent>
-      <CardFooter className="flex justify-between pt-2">
-        <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isRefreshing || isDeleting || !onRefresh}>
+      <CardFooter className="flex flex-wrap justify-between gap-2 pt-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleRefresh}
+          disabled={isRefreshing || isDeleting || !canEdit || !onRefresh}
+        >
           {isRefreshing ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
           Refresh
         </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => revisionInputRef.current?.click()}
+          disabled={isDeleting || isRefreshing || status === "processing" || !canEdit || !onUploadRevision}
+          title="Upload a new revision; only changed chunks are re-embedded"
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          Update
+        </Button>
+        <input ref={revisionInputRef} type="file" className="hidden" onChange={handleRevisionSelected} />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShowHistory(true)}
+          disabled={isDeleting || isRefreshing}
+          title="Revision history"
+        >
+          <History className="mr-2 h-4 w-4" />
+          History
+        </Button>
+        {canEdit && onVisibilityChange && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onVisibilityChange(id, visibility === "shared" ? "private" : "shared")}
+            disabled={isDeleting || isRefreshing}
+            title={
+              visibility === "shared" ? "Only you will be able to search this document" : "Let every user search this document"
+            }
+          >
+            {visibility === "shared" ? <Lock className="mr-2 h-4 w-4" /> : <Users className="mr-2 h-4 w-4" />}
+            {visibility === "shared" ? "Make private" : "Share"}
+          </Button>
+        )}
         <Button
           variant="outline"
           size="sm"
           onClick={handleDelete}
-          disabled={isDeleting || isRefreshing || !onDelete}
+          disabled={isDeleting || isRefreshing || !canEdit || !onDelete}
           className="text-destructive hover:text-destructive"
         >
           {isDeleting ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
           Delete
         </Button>
       </CardFooter>
+      <RevisionHistory
+        documentId={id}
+        documentName={title}
+        open={showHistory}
+        onOpenChange={setShowHistory}
+        canRestore={canEdit}
+        onRestored={(restored) => onRevisionRestored?.(id, restored)}
+      />
     </Card>
   )
 }
@@ -15,6 +15,9 @@ import {
 } from "../../../components/ui/alert-dialog"
 import { useToast } from "../../../hooks/use-toast"
 import { DocumentCard } from "./document-card"
+import { useCollection } from "../collections/collection-provider"
+import { useRole } from "../auth/role-provider"
+import { DEFAULT_COLLECTION_ID } from "../../../lib/collections/types"
 import { Loader2 } from "lucide-react"
 
 export interface Document {
@@ -30,6 +33,14 @@ export interface Document {
   vectorCount?: number
   processingStartedAt?: string
   processingCompletedAt?: string
+  collectionId?: string
+  indexDiff?: { added: number; changed: number; removed: number; unchanged: number }
+  activeRevision?: number
+  revisionCount?: number
+  userId?: string
+  visibility?: "private" | "shared"
+  // Whether the current user owns the document and may change it
+  canEdit?: boolean
 }
 
 interface DocumentListProps {
@@ -46,6 +57,12 @@ export function DocumentList({ documents: initialDocuments }: DocumentListProps)
   const [localDocuments, setLocalDocuments] = useState<Document[]>(validInitialDocuments)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const { toast } = useToast()
+  const { activeCollectionId, activeCollection } = useCollection()
+  // Viewers see every readable document but cannot change any
+  const canWrite = useRole().can("documents:write")
+
+  // Only the selected collection's documents are shown
+  const visibleDocuments = localDocuments.filter((doc) => (doc.collectionId || DEFAULT_COLLECTION_ID) === activeCollectionId)
 
   useEffect(() => {
     const processingDocs = localDocuments.filter(
@@ -153,11 +170,104 @@ export function DocumentList({ documents: initialDocuments }: DocumentListProps)
     }
   }
 
-  if (localDocuments.length === 0) {
+  const handleUploadRevision = async (docId: string, file: File) => {
+    setIsRefreshing(true)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      formData.append("documentId", docId)
+
+      const uploadResponse = await fetch("/api/documents/upload", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      })
+      const upload = await uploadResponse.json().catch(() => ({}))
+      if (!uploadResponse.ok) {
+        throw new Error(upload.error || "Failed to upload new revision")
+      }
+
+      const response = await fetch("/api/documents/process", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ documentId: docId }),
+        credentials: "include",
+      })
+      if (!response.ok) {
+        throw new Error("Failed to start re-indexing")
+      }
+
+      toast({
+        title: "Revision uploaded",
+        description: `Re-indexing ${file.name}. Only changed chunks will be embedded.`,
+      })
+
+      setLocalDocuments((prev) =>
+        prev.map((doc) =>
+          doc.id === docId
+            ? {
+                ...doc,
+                name: file.name,
+                size: file.size,
+                activeRevision: upload.revision,
+                revisionCount: upload.revision,
+                status: "processing",
+              }
+            : doc,
+        ),
+      )
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload new revision",
+        variant: "destructive",
+      })
+    } finally {
+      setIsRefreshing(false)
+    }
+  }
+
+  const handleVisibilityChange = async (docId: string, visibility: "private" | "shared") => {
+    try {
+      const response = await fetch(`/api/documents?id=${docId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ visibility }),
+        credentials: "include",
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to change document visibility")
+      }
+
+      setLocalDocuments((prev) => prev.map((doc) => (doc.id === docId ? { ...doc, visibility } : doc)))
+      toast({
+        title: visibility === "shared" ? "Document shared" : "Document made private",
+        description:
+          visibility === "shared"
+            ? "Every user can now find this document in search and chat."
+            : "Only you can find this document in search and chat.",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change document visibility",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (visibleDocuments.length === 0) {
     return (
       <Card>
         <CardContent className="flex flex-col items-center justify-center p-6">
-          <p className="text-center text-muted-foreground">No documents found. Upload a document to get started.</p>
+          <p className="text-center text-muted-foreground">
+            No documents in the {activeCollection?.name || "Default"} collection. Upload a document to get started.
+          </p>
         </CardContent>
       </Card>
     )
@@ -173,7 +283,7 @@ export function DocumentList({ documents: initialDocuments }: DocumentListProps)
       )}
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {localDocuments.map((document) => (
+        {visibleDocuments.map((document) => (
           <DocumentCard
             key={document.id}
             id={document.id}
@@ -188,8 +298,24 @@ export function DocumentList({ documents: initialDocuments }: DocumentListProps)
                   : "processing"
             }
             chunks={document.chunkCount || 0}
+            revision={document.activeRevision}
+            revisionCount={document.revisionCount}
+            lastChanges={document.indexDiff}
+            visibility={document.visibility}
+            canEdit={canWrite && document.canEdit !== false}
             onDelete={() => setSelectedDocument(document)}
             onRefresh={() => handleRefresh(document.id)}
+            onUploadRevision={handleUploadRevision}
+            onVisibilityChange={handleVisibilityChange}
+            onRevisionRestored={(docId, revision) =>
+              setLocalDocuments((prev) =>
+                prev.map((doc) =>
+                  doc.id === docId
+                    ? { ...doc, name: revision.name, size: revision.size, activeRevision: revision.revision, status: "processing" }
+                    : doc,
+                ),
+              )
+            }
           />
         ))}
       </div>
@@ -0,0 +1,162 @@
+/**
+ * Purpose: Revision history for a document
+ * Logic:
+ * - Lists every uploaded revision, newest first, marking the active one
+ * - Restoring a revision makes it the active, searchable one and re-indexes the document
+ * Runtime context: Client Component
+ */
+"use client"
+
+import { useEffect, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { History, Loader2, RotateCcw } from "lucide-react"
+import { Button } from "../../../components/ui/button"
+import { Badge } from "../../../components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../../../components/ui/dialog"
+import { useToast } from "../../../hooks/use-toast"
+import type { DocumentRevision } from "../../../lib/documents/revisions"
+
+interface RevisionHistoryProps {
+  documentId: string
+  documentName: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Only the document's owner can restore revisions
+  canRestore?: boolean
+  onRestored?: (revision: DocumentRevision) => void
+}
+
+export function RevisionHistory({
+  documentId,
+  documentName,
+  open,
+  onOpenChange,
+  canRestore = true,
+  onRestored,
+}: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<DocumentRevision[]>([])
+  const [activeRevision, setActiveRevision] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [restoring, setRestoring] = useState<number | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!open) return
+
+    const loadRevisions = async () => {
+      setIsLoading(true)
+      try {
+        const response = await fetch(`/api/documents/${documentId}/revisions`, { credentials: "include" })
+        if (!response.ok) {
+          throw new Error(`Failed to load revisions: ${response.status}`)
+        }
+        const data = await response.json()
+        setRevisions(data.revisions || [])
+        setActiveRevision(data.activeRevision ?? null)
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load revisions",
+          variant: "destructive",
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadRevisions()
+  }, [open, documentId, toast])
+
+  const handleRestore = async (revision: DocumentRevision) => {
+    setRestoring(revision.revision)
+    try {
+      const response = await fetch(`/api/documents/${documentId}/revisions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ revision: revision.revision }),
+        credentials: "include",
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to restore revision: ${response.status}`)
+      }
+
+      setActiveRevision(revision.revision)
+      toast({
+        title: "Revision restored",
+        description: `Re-indexing ${documentName} with revision ${revision.revision}.`,
+      })
+      onRestored?.(revision)
+      onOpenChange(false)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore revision",
+        variant: "destructive",
+      })
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Revision history
+          </DialogTitle>
+          <DialogDescription>
+            Only the active revision of {documentName} is searchable. Restoring an older revision re-indexes the
+            document with it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-6">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {revisions.map((revision) => (
+              <li key={revision.revision} className="flex items-center justify-between rounded-md border p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Revision {revision.revision}</span>
+                    {revision.revision === activeRevision && <Badge>Active</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {revision.name} • {(revision.size / 1024).toFixed(1)} KB •{" "}
+                    {formatDistanceToNow(new Date(revision.uploadedAt), { addSuffix: true })}
+                  </p>
+                </div>
+                {canRestore && revision.revision !== activeRevision && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(revision)}
+                    disabled={restoring !== null}
+                  >
+                    {restoring === revision.revision ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                    )}
+                    Restore
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -7,11 +7,15 @@ import { Button } from "../../../components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../../components/ui/card"
 import { Progress } from "../../../components/ui/progress"
 import { Alert, AlertDescription } from "../../../components/ui/alert"
+import { Label } from "../../../components/ui/label"
+import { Switch } from "../../../components/ui/switch"
 import { useToast } from "../../../hooks/use-toast"
 import { Upload, FileText, AlertCircle, X, CheckCircle, Loader2 } from "lucide-react"
 import { useRouter } from "next/navigation"
 import { ErrorBoundary, useErrorBoundaryWithToast } from "../ui/error-boundary"
 import { cn } from "../../../lib/utils"
+import { CODE_EXTENSIONS, detectCodeLanguage } from "../../../lib/documents/code"
+import { useCollection } from "../collections/collection-provider"
 
 // Processing stages with enhanced styling aligned with project design
 const PROCESSING_STAGES = {
@@ -73,6 +77,12 @@ interface ProcessingDetails {
   embeddingDimensions?: number
   contentLength?: number
   averageChunkLength?: number
+  totalTokens?: number
+  averageChunkTokens?: number
+  totalPages?: number
+  pagesWithText?: number
+  // Chunk changes against the previously indexed revision
+  chunkDiff?: { added: number; changed: number; removed: number; unchanged: number; refreshed?: number }
 }
 
 // Enhanced debug logger for client-side
@@ -82,6 +92,28 @@ const clientDebug = (message: string, ...args: any[]) => {
   }
 }
 
+const JOB_POLL_INTERVAL_MS = 1500
+
+// Maps an ingestion job from /api/jobs/{id} onto the progress updates the form already renders
+const toProgressUpdate = (job: any) => ({
+  type: job.status === "failed" ? "error" : undefined,
+  stage: job.stage === "completed" ? "completed" : job.stage === "embedding" ? "embedding" : "processing",
+  percent: job.percent,
+  message: job.status === "failed" ? job.error || job.message : job.message,
+  details: {
+    chunkCount: job.chunkCount || undefined,
+    vectorCount: job.vectorCount || undefined,
+    processedChunks: job.vectorCount || undefined,
+    totalChunks: job.diff ? job.diff.added + job.diff.changed : job.chunkCount || undefined,
+    chunkDiff: job.diff,
+    currentBatch: job.completedBatches || undefined,
+    totalBatches: job.totalBatches || undefined,
+    totalTokens: job.totalTokens || undefined,
+    embeddingModel: job.embeddingModel,
+    embeddingDimensions: job.embeddingDimensions,
+  },
+})
+
 // Separate the upload form content into its own component to be wrapped by ErrorBoundary
 function UploadFormContent() {
   const [file, setFile] = useState<File | null>(null)
@@ -93,13 +125,16 @@ function UploadFormContent() {
   const [error, setError] = useState<string | null>(null)
   const [processingDetails, setProcessingDetails] = useState<ProcessingDetails>({})
   const [showDetails, setShowDetails] = useState(false)
+  // New documents are private to the uploader unless shared
+  const [shared, setShared] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
   const { toast } = useToast()
   const router = useRouter()
+  const { activeCollectionId, activeCollection, refresh: refreshCollections } = useCollection()
 
   const allowedTypes = ["text/markdown", "text/plain", "application/pdf", "text/html"]
-  const allowedExtensions = [".md", ".txt", ".pdf", ".html"]
+  const allowedExtensions = [".md", ".txt", ".pdf", ".html", ...Object.keys(CODE_EXTENSIONS)]
 
   // Log component mount for debugging
   useEffect(() => {
@@ -125,8 +160,10 @@ function UploadFormContent() {
         size: selectedFile.size,
       })
 
-      if (!allowedTypes.includes(selectedFile.type)) {
-        const errorMsg = "Invalid file type. Supported types: Markdown (.md), Text (.txt), PDF (.pdf), HTML (.html)"
+      // Source files are accepted by extension since their MIME type is often empty
+      if (!detectCodeLanguage(selectedFile.name) && !allowedTypes.includes(selectedFile.type)) {
+        const errorMsg =
+          "Invalid file type. Supported types: Markdown (.md), Text (.txt), PDF (.pdf), HTML (.html), source code (.h, .cpp, .cs, .ini, .t3d)"
         clientDebug("Invalid file type:", selectedFile.type)
         setError(errorMsg)
         setFile(null)
@@ -172,6 +209,8 @@ function UploadFormContent() {
     try {
       const formData = new FormData()
       formData.append("file", file)
+      formData.append("collection", activeCollectionId)
+      formData.append("visibility", shared ? "shared" : "private")
 
       // Use fetch with credentials for better error handling
       const response = await fetch("/api/documents/upload", {
@@ -203,11 +242,14 @@ function UploadFormContent() {
 
       toast({
         title: "Upload successful",
-        description: `${file.name} uploaded successfully. Starting processing...`,
+        description:
+          uploadResult.revision > 1
+            ? `${file.name} uploaded as revision ${uploadResult.revision} of the existing document. Re-indexing changed chunks...`
+            : `${file.name} uploaded successfully. Starting processing...`,
       })
 
-      // Start processing with streaming updates
-      await startProcessingWithStream(uploadResult.id)
+      // Queue processing and follow the job's progress
+      await startProcessing(uploadResult.id)
     } catch (err) {
       clientDebug("Upload error:", err)
       setError(err instanceof Error ? err.message : "An unknown error occurred")
@@ -215,29 +257,30 @@ function UploadFormContent() {
     }
   }
 
-  const startProcessingWithStream = async (documentId: string) => {
-    clientDebug("Starting processing stream for document:", documentId)
+  const startProcessing = async (documentId: string) => {
+    clientDebug("Starting ingestion job for document:", documentId)
 
     setProcessing(true)
     setProgress(0)
     setStage("processing")
     setStatusMessage("Initializing document processing...")
 
-    // Create an abort controller for the fetch request
+    // Create an abort controller for the polling requests
     abortControllerRef.current = new AbortController()
+    const signal = abortControllerRef.current.signal
 
     try {
-      clientDebug("Fetching processing stream from /api/documents/process")
-      const response = await fetch(`/api/documents/process?id=${documentId}`, {
+      const response = await fetch("/api/documents/process", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
+        body: JSON.stringify({ documentId }),
         credentials: "include",
-        signal: abortControllerRef.current.signal,
+        signal,
       })
 
-      clientDebug("Processing stream response status:", response.status)
+      clientDebug("Process response status:", response.status)
 
       if (!response.ok) {
         let errorMessage = "Processing failed"
@@ -252,45 +295,24 @@ function UploadFormContent() {
         throw new Error(errorMessage)
       }
 
-      if (!response.body) {
-        throw new Error("Response body is null")
-      }
-
-      // Process the stream
-      clientDebug("Starting to read processing stream")
-      const reader = response.body.getReader()
-      const decoder = new TextDecoder()
-
-      while (true) {
-        const { done, value } = await reader.read()
-
-        if (done) {
-          clientDebug("Processing stream complete")
-          break
-        }
-
-        // Decode the chunk and split by newlines (each line is a JSON object)
-        const chunk = decoder.decode(value, { stream: true })
-        clientDebug("Received chunk from stream:", chunk.length, "bytes")
-        const lines = chunk.split("\n").filter((line) => line.trim())
-        clientDebug("Parsed", lines.length, "lines from chunk")
-
-        for (const line of lines) {
-          try {
-            const update = JSON.parse(line)
-            clientDebug("Processing update:", update)
-            handleProgressUpdate(update)
-          } catch (parseError) {
-            // Log parsing errors but continue processing
-            clientDebug("Failed to parse progress update:", line, parseError)
-            console.warn("Failed to parse progress update:", line, parseError)
-          }
+      // The job runs in the background; poll its status until it finishes
+      let { job } = await response.json()
+      while (!signal.aborted) {
+        clientDebug("Job update:", job)
+        handleProgressUpdate(toProgressUpdate(job))
+        if (job.status === "completed" || job.status === "failed") break
+
+        await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS))
+        const pollResponse = await fetch(`/api/jobs/${job.id}`, { credentials: "include", signal })
+        if (!pollResponse.ok) {
+          throw new Error(`Failed to check processing status: ${pollResponse.status}`)
         }
+        job = (await pollResponse.json()).job
       }
     } catch (err: any) {
       if (err.name !== "AbortError") {
-        clientDebug("Processing stream error:", err)
-        console.error("Processing stream error:", err)
+        clientDebug("Processing error:", err)
+        console.error("Processing error:", err)
 
         setError(err instanceof Error ? err.message : "An unknown error occurred during processing")
         setStage("error")
@@ -300,7 +322,7 @@ function UploadFormContent() {
           variant: "destructive",
         })
       } else {
-        clientDebug("Processing stream aborted")
+        clientDebug("Processing polling aborted")
       }
     } finally {
       setUploading(false)
@@ -364,6 +386,7 @@ function UploadFormContent() {
         clientDebug("Resetting form after completion")
         resetForm()
         router.refresh()
+        refreshCollections()
       }, 3000)
     }
   }
@@ -403,7 +426,8 @@ function UploadFormContent() {
         <CardTitle>Upload Document</CardTitle>
         <CardDescription>
           Upload API documentation in Markdown, Text, PDF, or HTML format. Files will be processed using semantic
-          chunking and stored as vector embeddings.
+          chunking and stored as vector embeddings in the{" "}
+          <span className="font-medium text-foreground">{activeCollection?.name || "Default"}</span> collection.
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -432,7 +456,8 @@ function UploadFormContent() {
               <div>
                 <p className="text-sm font-medium">Drag and drop your file here or click to browse</p>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Supported formats: Markdown (.md), Text (.txt), PDF (.pdf), HTML (.html)
+                  Supported formats: Markdown (.md), Text (.txt), PDF (.pdf), HTML (.html), Unreal C++ (.h, .cpp),
+                  C# (.cs), config (.ini), Blueprint text exports (.t3d, .uasset)
                 </p>
                 <p className="text-xs text-muted-foreground">Maximum file size: 10MB</p>
               </div>
@@ -505,14 +530,32 @@ function UploadFormContent() {
                           {processingDetails.contentLength && (
                             <p>Content length: {processingDetails.contentLength} characters</p>
                           )}
+                          {processingDetails.totalPages && (
+                            <p>
+                              PDF pages with text: {processingDetails.pagesWithText ?? 0}/{processingDetails.totalPages}
+                            </p>
+                          )}
                           {processingDetails.averageChunkLength && (
                             <p>Average chunk length: {Math.round(processingDetails.averageChunkLength)} characters</p>
                           )}
+                          {processingDetails.totalTokens && <p>Total tokens: {processingDetails.totalTokens}</p>}
+                          {processingDetails.averageChunkTokens && (
+                            <p>Average chunk size: {Math.round(processingDetails.averageChunkTokens)} tokens</p>
+                          )}
                           {processingDetails.processedChunks && processingDetails.totalChunks && (
                             <p>
                               Embedding progress: {processingDetails.processedChunks}/{processingDetails.totalChunks}
                             </p>
                           )}
+                          {processingDetails.chunkDiff && (
+                            <p>
+                              Chunk changes: {processingDetails.chunkDiff.added} added,{" "}
+                              {processingDetails.chunkDiff.changed} changed, {processingDetails.chunkDiff.removed}{" "}
+                              removed, {processingDetails.chunkDiff.unchanged} unchanged
+                              {!!processingDetails.chunkDiff.refreshed &&
+                                ` (${processingDetails.chunkDiff.refreshed} with updated metadata)`}
+                            </p>
+                          )}
                           {processingDetails.storedVectors && processingDetails.totalVectors && (
                             <p>
                               Storage progress: {processingDetails.storedVectors}/{processingDetails.totalVectors}
@@ -540,6 +583,13 @@ function UploadFormContent() {
                 </Alert>
               )}
 
+              {!isActive && (
+                <div className="flex items-center justify-center gap-2">
+                  <Switch id="share-document" checked={shared} onCheckedChange={setShared} />
+                  <Label htmlFor="share-document">Share with all users</Label>
+                </div>
+              )}
+
               <div className="flex gap-2 justify-center">
                 {!isActive ? (
                   <>
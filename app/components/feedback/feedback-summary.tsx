@@ -0,0 +1,169 @@
+/**
+ * Purpose: Retrieval quality overview
+ * Logic:
+ * - Shows feedback totals
+ * - Lists documents and queries with the most negative feedback first
+ * - Lists the latest rated answers
+ * Runtime context: Server Component
+ */
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../../components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../components/ui/table"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../../components/ui/tabs"
+import { Badge } from "../../../components/ui/badge"
+import type { FeedbackSummary as Summary } from "../../../lib/feedback/storage"
+
+function Stat({ label, value, description }: { label: string; value: number | string; description?: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className="text-2xl">{value}</CardTitle>
+      </CardHeader>
+      {description && <CardContent className="text-xs text-muted-foreground">{description}</CardContent>}
+    </Card>
+  )
+}
+
+function percent(part: number, total: number) {
+  return total > 0 ? `${Math.round((part / total) * 100)}%` : "—"
+}
+
+function EmptyRow({ colSpan }: { colSpan: number }) {
+  return (
+    <TableRow>
+      <TableCell colSpan={colSpan} className="py-6 text-center text-muted-foreground">
+        No feedback yet.
+      </TableCell>
+    </TableRow>
+  )
+}
+
+export function FeedbackSummary({ summary }: { summary: Summary }) {
+  const rated = summary.up + summary.down
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+        <Stat label="Answers with feedback" value={summary.total} />
+        <Stat label="Helpful" value={summary.up} description={`${percent(summary.up, rated)} of rated answers`} />
+        <Stat label="Not helpful" value={summary.down} description={`${percent(summary.down, rated)} of rated answers`} />
+        <Stat label="Irrelevant citations" value={summary.irrelevant} />
+      </div>
+
+      <Tabs defaultValue="documents">
+        <TabsList>
+          <TabsTrigger value="documents">By document</TabsTrigger>
+          <TabsTrigger value="queries">By query</TabsTrigger>
+          <TabsTrigger value="recent">Recent</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="documents" className="mt-4">
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Document</TableHead>
+                  <TableHead className="text-right">Cited in</TableHead>
+                  <TableHead className="text-right">Helpful</TableHead>
+                  <TableHead className="text-right">Not helpful</TableHead>
+                  <TableHead className="text-right">Irrelevant chunks</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.byDocument.length === 0 && <EmptyRow colSpan={5} />}
+                {summary.byDocument.map((stats) => (
+                  <TableRow key={stats.documentId}>
+                    <TableCell>
+                      <div className="font-medium">{stats.source}</div>
+                      <div className="text-xs text-muted-foreground">{stats.documentId}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{stats.retrieved}</TableCell>
+                    <TableCell className="text-right">{stats.up}</TableCell>
+                    <TableCell className="text-right">{stats.down}</TableCell>
+                    <TableCell className="text-right">{stats.irrelevant}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="queries" className="mt-4">
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Query</TableHead>
+                  <TableHead className="text-right">Answers</TableHead>
+                  <TableHead className="text-right">Helpful</TableHead>
+                  <TableHead className="text-right">Not helpful</TableHead>
+                  <TableHead className="text-right">Irrelevant chunks</TableHead>
+                  <TableHead className="text-right">Last feedback</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.byQuery.length === 0 && <EmptyRow colSpan={6} />}
+                {summary.byQuery.map((stats) => (
+                  <TableRow key={stats.query}>
+                    <TableCell className="max-w-md truncate">{stats.query}</TableCell>
+                    <TableCell className="text-right">{stats.count}</TableCell>
+                    <TableCell className="text-right">{stats.up}</TableCell>
+                    <TableCell className="text-right">{stats.down}</TableCell>
+                    <TableCell className="text-right">{stats.irrelevant}</TableCell>
+                    <TableCell className="text-right text-xs text-muted-foreground">
+                      {new Date(stats.lastAt).toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="recent" className="mt-4">
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Query</TableHead>
+                  <TableHead>Rating</TableHead>
+                  <TableHead>Retrieved chunks</TableHead>
+                  <TableHead className="text-right">Updated</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.recent.length === 0 && <EmptyRow colSpan={4} />}
+                {summary.recent.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="max-w-xs truncate">{entry.query}</TableCell>
+                    <TableCell>
+                      {entry.rating === "up" && <Badge variant="secondary">Helpful</Badge>}
+                      {entry.rating === "down" && <Badge variant="destructive">Not helpful</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {entry.chunks.map((chunk) => (
+                          <Badge
+                            key={chunk.id}
+                            variant="outline"
+                            className={entry.irrelevantChunkIds.includes(chunk.id) ? "line-through opacity-60" : ""}
+                            title={chunk.id}
+                          >
+                            {chunk.source} · {chunk.score.toFixed(3)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right text-xs text-muted-foreground">
+                      {new Date(entry.updatedAt).toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
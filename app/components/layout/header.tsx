@@ -15,11 +15,14 @@ import { useToast } from "@/hooks/use-toast"
 import { User, LogOut, Settings } from "lucide-react"
 import { useAuth } from "@/lib/hooks/use-auth"
 import { signOut } from "@/lib/auth-client"
+import { CollectionSwitcher } from "@/app/components/collections/collection-switcher"
+import { useRole } from "@/app/components/auth/role-provider"
 
 export function Header() {
   const [isLoggingOut, setIsLoggingOut] = useState(false)
   const { toast } = useToast()
   const { user } = useAuth()
+  const { role, can } = useRole()
   const router = useRouter()
 
   const handleLogout = async () => {
@@ -57,33 +60,40 @@ export function Header() {
           <span className="text-xl font-bold">LLMGraph-UE</span>
         </Link>
 
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button variant="ghost" size="icon" className="rounded-full">
-              <User className="h-5 w-5" />
-              <span className="sr-only">User menu</span>
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end">
-            <div className="flex items-center justify-start gap-2 p-2">
-              <div className="flex flex-col space-y-1 leading-none">
-                <p className="font-medium">{displayName}</p>
-                {user.email && <p className="text-xs text-muted-foreground">{user.email}</p>}
+        <div className="flex items-center gap-2">
+          <CollectionSwitcher />
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="rounded-full">
+                <User className="h-5 w-5" />
+                <span className="sr-only">User menu</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <div className="flex items-center justify-start gap-2 p-2">
+                <div className="flex flex-col space-y-1 leading-none">
+                  <p className="font-medium">{displayName}</p>
+                  {user.email && <p className="text-xs text-muted-foreground">{user.email}</p>}
+                  <p className="text-xs capitalize text-muted-foreground">{role}</p>
+                </div>
               </div>
-            </div>
-            <DropdownMenuSeparator />
-            <DropdownMenuItem asChild>
-              <Link href="/dashboard/settings" className="cursor-pointer">
-                <Settings className="mr-2 h-4 w-4" />
-                <span>Settings</span>
-              </Link>
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={handleLogout} disabled={isLoggingOut} className="cursor-pointer">
-              <LogOut className="mr-2 h-4 w-4" />
-              <span>{isLoggingOut ? "Logging out..." : "Log out"}</span>
-            </DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
+              <DropdownMenuSeparator />
+              {can("settings") && (
+                <DropdownMenuItem asChild>
+                  <Link href="/dashboard/settings" className="cursor-pointer">
+                    <Settings className="mr-2 h-4 w-4" />
+                    <span>Settings</span>
+                  </Link>
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={handleLogout} disabled={isLoggingOut} className="cursor-pointer">
+                <LogOut className="mr-2 h-4 w-4" />
+                <span>{isLoggingOut ? "Logging out..." : "Log out"}</span>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
       </div>
     </header>
   )
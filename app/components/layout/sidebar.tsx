@@ -4,9 +4,12 @@ import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { cn } from "../../../lib/utils"
 import { Button } from "../../../components/ui/button"
-import { MessageSquare, FileText, Settings, Activity } from "lucide-react"
+import { MessageSquare, FileText, Settings, Activity, ThumbsUp, KeyRound } from "lucide-react"
+import { useRole } from "../auth/role-provider"
+import type { Permission } from "../../../lib/roles"
 
-const navigation = [
+// Pages a role lacks the permission for are not linked
+const navigation: Array<{ name: string; href: string; icon: typeof MessageSquare; permission?: Permission }> = [
   {
     name: "Chat",
     href: "/dashboard",
@@ -17,20 +20,35 @@ const navigation = [
     href: "/dashboard/documents",
     icon: FileText,
   },
+  {
+    name: "Feedback",
+    href: "/dashboard/feedback",
+    icon: ThumbsUp,
+    permission: "feedback:read",
+  },
+  {
+    name: "API Keys",
+    href: "/dashboard/api-keys",
+    icon: KeyRound,
+  },
   {
     name: "Settings",
     href: "/dashboard/settings",
     icon: Settings,
+    permission: "settings",
   },
   {
     name: "Debug",
     href: "/dashboard/debug",
     icon: Activity,
+    permission: "debug",
   },
 ]
 
 export function Sidebar() {
   const pathname = usePathname()
+  const { can } = useRole()
+  const visibleNavigation = navigation.filter((item) => !item.permission || can(item.permission))
 
   return (
     <div className="flex h-full w-64 flex-col border-r bg-background">
@@ -38,7 +56,7 @@ export function Sidebar() {
         <h2 className="text-lg font-semibold">Dashboard</h2>
       </div>
       <nav className="flex-1 space-y-1 p-4">
-        {navigation.map((item) => {
+        {visibleNavigation.map((item) => {
           const isActive = pathname === item.href
           return (
             <Button
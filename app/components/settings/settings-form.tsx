@@ -7,27 +7,37 @@ import { Input } from "../../../components/ui/input"
 import { Label } from "../../../components/ui/label"
 import { Slider } from "../../../components/ui/slider"
 import { Switch } from "../../../components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../components/ui/select"
 import { useToast } from "../../../hooks/use-toast"
 import { useRouter } from "next/navigation"
+import type { AppSettings, SettingsErrors } from "../../../lib/settings/schema"
 
 interface SettingsFormProps {
-  initialSettings: {
-    topK: number
-    temperature: number
-    hybridSearch: boolean
-    chunkSize: {
-      text: number
-      code: number
-    }
-  }
+  initialSettings: AppSettings
+}
+
+// Model and vector size each embedding provider starts from when selected
+const EMBEDDING_PROVIDER_DEFAULTS: Record<
+  AppSettings["embeddingProvider"],
+  { model: string; dimensions: number }
+> = {
+  openai: { model: "text-embedding-3-large", dimensions: 3072 },
+  azure: { model: "text-embedding-3-large", dimensions: 3072 },
+  "openai-compatible": { model: "nomic-embed-text", dimensions: 768 },
+  hash: { model: "feature-hash", dimensions: 512 },
 }
 
 export function SettingsForm({ initialSettings }: SettingsFormProps) {
   const [settings, setSettings] = useState(initialSettings)
   const [isSaving, setIsSaving] = useState(false)
+  const [errors, setErrors] = useState<SettingsErrors>({})
   const { toast } = useToast()
   const router = useRouter()
 
+  // Validation message from the server for a field, e.g. "chunkSize.text"
+  const fieldError = (field: string) =>
+    errors[field] ? <p className="text-sm text-destructive mt-1">{errors[field]}</p> : null
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsSaving(true)
@@ -42,10 +52,14 @@ export function SettingsForm({ initialSettings }: SettingsFormProps) {
         credentials: "include",
       })
 
+      const data = await response.json().catch(() => ({}))
       if (!response.ok) {
-        throw new Error("Failed to save settings")
+        setErrors(data.errors || {})
+        throw new Error(data.errors ? "Some settings are invalid. Check the highlighted fields." : "Failed to save settings")
       }
 
+      setErrors({})
+
       toast({
         title: "Settings saved",
         description: "Your settings have been saved successfully.",
@@ -80,6 +94,7 @@ export function SettingsForm({ initialSettings }: SettingsFormProps) {
             />
             <span className="w-12 text-center">{settings.topK}</span>
           </div>
+          {fieldError("topK")}
           <p className="text-sm text-muted-foreground mt-1">Number of chunks to retrieve from the vector database.</p>
         </div>
 
@@ -97,9 +112,59 @@ export function SettingsForm({ initialSettings }: SettingsFormProps) {
             />
             <span className="w-12 text-center">{settings.temperature.toFixed(1)}</span>
           </div>
+          {fieldError("temperature")}
           <p className="text-sm text-muted-foreground mt-1">Controls randomness in response generation.</p>
         </div>
 
+        <div>
+          <Label htmlFor="chatProvider">Chat Provider</Label>
+          <Select
+            value={settings.chatProvider}
+            onValueChange={(value) =>
+              setSettings({ ...settings, chatProvider: value as AppSettings["chatProvider"] })
+            }
+          >
+            <SelectTrigger id="chatProvider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="openai">OpenAI</SelectItem>
+              <SelectItem value="anthropic">Anthropic</SelectItem>
+              <SelectItem value="openai-compatible">OpenAI-compatible server (Ollama, vLLM)</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground mt-1">
+            Default for new conversations. Users can switch models per conversation in the chat.
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="chatModel">Chat Model</Label>
+          <Input
+            id="chatModel"
+            value={settings.chatModel}
+            onChange={(e) => setSettings({ ...settings, chatModel: e.target.value })}
+          />
+          {fieldError("chatModel")}
+          <p className="text-sm text-muted-foreground mt-1">
+            Model name sent to the provider, e.g. gpt-4o, claude-3-5-sonnet-latest or llama3.1:8b.
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="maxTokens">Max Tokens</Label>
+          <Input
+            id="maxTokens"
+            type="number"
+            min={100}
+            max={8000}
+            value={settings.maxTokens}
+            onChange={(e) => setSettings({ ...settings, maxTokens: Number.parseInt(e.target.value) })}
+          />
+          {fieldError("maxTokens")}
+          <p className="text-sm text-muted-foreground mt-1">Maximum length of a generated answer in tokens.</p>
+        </div>
+
         <div className="flex items-center justify-between">
           <div className="space-y-0.5">
             <Label htmlFor="hybridSearch">Hybrid Search</Label>
@@ -112,6 +177,105 @@ export function SettingsForm({ initialSettings }: SettingsFormProps) {
           />
         </div>
 
+        {settings.hybridSearch && (
+          <>
+            <div>
+              <Label htmlFor="fusionMethod">Fusion Method</Label>
+              <Select
+                value={settings.fusionMethod}
+                onValueChange={(value) =>
+                  setSettings({ ...settings, fusionMethod: value as AppSettings["fusionMethod"] })
+                }
+              >
+                <SelectTrigger id="fusionMethod">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="rrf">Reciprocal Rank Fusion</SelectItem>
+                  <SelectItem value="weighted">Weighted Scores</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground mt-1">
+                How vector and keyword results are combined into a single ranking.
+              </p>
+            </div>
+
+            {settings.fusionMethod === "weighted" && (
+              <div>
+                <Label htmlFor="hybridAlpha">Vector Weight</Label>
+                <div className="flex items-center gap-4">
+                  <Slider
+                    id="hybridAlpha"
+                    min={0}
+                    max={1}
+                    step={0.1}
+                    value={[settings.hybridAlpha]}
+                    onValueChange={(value) => setSettings({ ...settings, hybridAlpha: value[0] })}
+                    className="flex-1"
+                  />
+                  <span className="w-12 text-center">{settings.hybridAlpha.toFixed(1)}</span>
+                </div>
+                {fieldError("hybridAlpha")}
+                <p className="text-sm text-muted-foreground mt-1">
+                  Share of the score from vector similarity; the rest comes from keyword matching.
+                </p>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="queryRewriting">Query Rewriting</Label>
+            <p className="text-sm text-muted-foreground">
+              Rewrite follow-up questions into standalone search queries using the chat history. Uses the chat provider (GPT-4o mini on OpenAI).
+            </p>
+          </div>
+          <Switch
+            id="queryRewriting"
+            checked={settings.queryRewriting}
+            onCheckedChange={(checked) => setSettings({ ...settings, queryRewriting: checked })}
+          />
+        </div>
+
+        {settings.queryRewriting && (
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="subQueries">Sub-queries</Label>
+              <p className="text-sm text-muted-foreground">
+                Split multi-part questions into separate searches and merge the results.
+              </p>
+            </div>
+            <Switch
+              id="subQueries"
+              checked={settings.subQueries}
+              onCheckedChange={(checked) => setSettings({ ...settings, subQueries: checked })}
+            />
+          </div>
+        )}
+
+        <div>
+          <Label htmlFor="reranker">Reranker</Label>
+          <Select
+            value={settings.reranker}
+            onValueChange={(value) =>
+              setSettings({ ...settings, reranker: value as AppSettings["reranker"] })
+            }
+          >
+            <SelectTrigger id="reranker">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="heuristic">Heuristic (term overlap)</SelectItem>
+              <SelectItem value="llm">LLM</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground mt-1">
+            Rescores 4x Top K candidates and keeps the best. The LLM reranker is slower but more accurate.
+          </p>
+        </div>
+
         <div>
           <Label htmlFor="textChunkSize">Text Chunk Size</Label>
           <Input
@@ -130,6 +294,7 @@ export function SettingsForm({ initialSettings }: SettingsFormProps) {
               })
             }
           />
+          {fieldError("chunkSize.text")}
           <p className="text-sm text-muted-foreground mt-1">Size of text chunks in tokens (200-500 recommended).</p>
         </div>
 
@@ -151,8 +316,69 @@ export function SettingsForm({ initialSettings }: SettingsFormProps) {
               })
             }
           />
+          {fieldError("chunkSize.code")}
           <p className="text-sm text-muted-foreground mt-1">Size of code chunks in tokens (750-1500 recommended).</p>
         </div>
+
+        <div>
+          <Label htmlFor="embeddingProvider">Embedding Provider</Label>
+          <Select
+            value={settings.embeddingProvider}
+            onValueChange={(value) => {
+              const embeddingProvider = value as AppSettings["embeddingProvider"]
+              const defaults = EMBEDDING_PROVIDER_DEFAULTS[embeddingProvider]
+              setSettings({
+                ...settings,
+                embeddingProvider,
+                embeddingModel: defaults.model,
+                embeddingDimensions: defaults.dimensions,
+              })
+            }}
+          >
+            <SelectTrigger id="embeddingProvider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="openai">OpenAI</SelectItem>
+              <SelectItem value="azure">Azure OpenAI</SelectItem>
+              <SelectItem value="openai-compatible">OpenAI-compatible server (Ollama, vLLM)</SelectItem>
+              <SelectItem value="hash">Hash (testing only)</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground mt-1">
+            Documents must be re-processed after changing the provider. The dimensions must match the Pinecone index.
+          </p>
+        </div>
+
+        {settings.embeddingProvider !== "hash" && (
+          <div>
+            <Label htmlFor="embeddingModel">Embedding Model</Label>
+            <Input
+              id="embeddingModel"
+              value={settings.embeddingModel}
+              onChange={(e) => setSettings({ ...settings, embeddingModel: e.target.value })}
+            />
+            {fieldError("embeddingModel")}
+            <p className="text-sm text-muted-foreground mt-1">
+              {settings.embeddingProvider === "azure"
+                ? "Used as the deployment name unless AZURE_OPENAI_EMBEDDING_DEPLOYMENT is set."
+                : "Model name sent to the embedding API."}
+            </p>
+          </div>
+        )}
+
+        <div>
+          <Label htmlFor="embeddingDimensions">Embedding Dimensions</Label>
+          <Input
+            id="embeddingDimensions"
+            type="number"
+            min={1}
+            value={settings.embeddingDimensions}
+            onChange={(e) => setSettings({ ...settings, embeddingDimensions: Number.parseInt(e.target.value) })}
+          />
+          {fieldError("embeddingDimensions")}
+          <p className="text-sm text-muted-foreground mt-1">Vector size produced by the model.</p>
+        </div>
       </div>
 
       <Button type="submit" disabled={isSaving}>
@@ -0,0 +1,29 @@
+/**
+ * Purpose: API key page
+ * Logic:
+ * - Lists the signed-in user's API keys and lets them create and revoke keys
+ * Runtime context: Server Component
+ * Services: Vercel KV (for API keys)
+ */
+import { Card, CardDescription, CardHeader, CardTitle } from "../../../components/ui/card"
+import { ApiKeyManager } from "../../components/api-keys/api-key-manager"
+import { requireAuth } from "../../../lib/auth-server"
+import { listApiKeys } from "../../../lib/api-keys/storage"
+
+export default async function ApiKeysPage() {
+  const user = await requireAuth()
+  const apiKeys = await listApiKeys(user.id)
+
+  return (
+    <div className="space-y-4">
+      <Card className="border-none shadow-none">
+        <CardHeader className="px-0">
+          <CardTitle>API Access</CardTitle>
+          <CardDescription>Call search, chat and uploads from scripts and tools</CardDescription>
+        </CardHeader>
+      </Card>
+
+      <ApiKeyManager initialKeys={apiKeys} />
+    </div>
+  )
+}
@@ -3,12 +3,20 @@
  * Logic:
  * - Provides debug panels for testing various system components
  * - Shows system health and configuration
+ * - Admin-only; other roles are sent back to the dashboard
  * Runtime context: Server Component
  */
+import { redirect } from "next/navigation"
 import { Card, CardDescription, CardHeader, CardTitle } from "../../../components/ui/card"
 import { DebugPanel } from "../../components/debug/debug-panel"
+import { getUserRole, requireAuth } from "../../../lib/auth-server"
+import { hasPermission } from "../../../lib/roles"
+
+export default async function DebugPage() {
+  if (!hasPermission(getUserRole(await requireAuth()), "debug")) {
+    redirect("/dashboard")
+  }
 
-export default function DebugPage() {
   return (
     <div className="space-y-4">
       <Card className="border-none shadow-none">
@@ -2,7 +2,7 @@
  * Purpose: Document management page
  * Logic:
  * - Displays list of uploaded documents
- * - Provides document upload functionality
+ * - Provides document upload functionality to roles that can change documents
  * - Shows document processing status
  * Runtime context: Server Component
  * Services: Vercel Blob (for document list), Vercel KV (for processing status)
@@ -12,7 +12,10 @@ import { DocumentList } from "../../components/documents/document-list"
 import { UploadForm } from "../../components/documents/upload-form"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../../components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../../components/ui/tabs"
-import { getDocuments } from "../../../lib/documents/storage"
+import { getReadableDocuments } from "../../../lib/documents/storage"
+import { canModifyDocument } from "../../../lib/documents/access"
+import { getUserRole, requireAuth } from "../../../lib/auth-server"
+import { hasPermission } from "../../../lib/roles"
 import { Skeleton } from "../../../components/ui/skeleton"
 
 // Loading component for documents
@@ -43,11 +46,18 @@ function DocumentsLoading() {
 
 // Documents list with data
 async function DocumentsList() {
-  const documents = await getDocuments()
-  return <DocumentList documents={documents} />
+  const user = await requireAuth()
+  const documents = await getReadableDocuments(user.id)
+  return (
+    <DocumentList
+      documents={documents.map((document) => ({ ...document, canEdit: canModifyDocument(document, user.id) }))}
+    />
+  )
 }
 
 export default async function DocumentsPage() {
+  const canUpload = hasPermission(getUserRole(await requireAuth()), "documents:write")
+
   return (
     <div className="space-y-4">
       <Card className="border-none shadow-none">
@@ -60,16 +70,18 @@ export default async function DocumentsPage() {
       <Tabs defaultValue="documents">
         <TabsList>
           <TabsTrigger value="documents">Documents</TabsTrigger>
-          <TabsTrigger value="upload">Upload</TabsTrigger>
+          {canUpload && <TabsTrigger value="upload">Upload</TabsTrigger>}
         </TabsList>
         <TabsContent value="documents" className="mt-4">
           <Suspense fallback={<DocumentsLoading />}>
             <DocumentsList />
           </Suspense>
         </TabsContent>
-        <TabsContent value="upload" className="mt-4">
-          <UploadForm />
-        </TabsContent>
+        {canUpload && (
+          <TabsContent value="upload" className="mt-4">
+            <UploadForm />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   )
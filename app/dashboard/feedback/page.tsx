@@ -0,0 +1,45 @@
+/**
+ * Purpose: Retrieval quality dashboard
+ * Logic:
+ * - Aggregates answer feedback by document and by query, limited to documents the user can read
+ * - Highlights documents that produce bad answers or irrelevant citations
+ * - Editors and admins only; viewers are sent back to the dashboard
+ * Runtime context: Server Component
+ * Services: Vercel KV (for feedback entries)
+ */
+import { FeedbackSummary } from "../../components/feedback/feedback-summary"
+import { Card, CardDescription, CardHeader, CardTitle } from "../../../components/ui/card"
+import { aggregateFeedback, getFeedbackSummary } from "../../../lib/feedback/storage"
+import { redirect } from "next/navigation"
+import { getUserRole, requireAuth } from "../../../lib/auth-server"
+import { hasPermission } from "../../../lib/roles"
+
+async function getSummary(userId: string) {
+  try {
+    return await getFeedbackSummary(userId)
+  } catch (error) {
+    console.error("Failed to load feedback:", error)
+    return aggregateFeedback([])
+  }
+}
+
+export default async function FeedbackPage() {
+  const user = await requireAuth()
+  if (!hasPermission(getUserRole(user), "feedback:read")) {
+    redirect("/dashboard")
+  }
+
+  const summary = await getSummary(user.id)
+
+  return (
+    <div className="space-y-4">
+      <Card className="border-none shadow-none">
+        <CardHeader className="px-0">
+          <CardTitle>Answer Feedback</CardTitle>
+          <CardDescription>See which documents and queries produce unhelpful answers</CardDescription>
+        </CardHeader>
+      </Card>
+      <FeedbackSummary summary={summary} />
+    </div>
+  )
+}
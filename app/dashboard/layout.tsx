@@ -1,7 +1,9 @@
 import { redirect } from "next/navigation"
-import { getSupabaseServer } from "@/lib/auth-server"
+import { getSupabaseServer, getUserRole } from "@/lib/auth-server"
 import { Header } from "@/app/components/layout/header"
 import { Sidebar } from "@/app/components/layout/sidebar"
+import { CollectionProvider } from "@/app/components/collections/collection-provider"
+import { RoleProvider } from "@/app/components/auth/role-provider"
 
 export default async function DashboardLayout({
   children,
@@ -16,14 +18,18 @@ export default async function DashboardLayout({
   }
 
   return (
-    <div className="flex h-screen">
-      <Sidebar />
-      <div className="flex flex-1 flex-col">
-        <Header />
-        <main className="flex-1 overflow-auto p-6">
-          {children}
-        </main>
-      </div>
-    </div>
+    <RoleProvider role={getUserRole(user)}>
+      <CollectionProvider>
+        <div className="flex h-screen">
+          <Sidebar />
+          <div className="flex flex-1 flex-col">
+            <Header />
+            <main className="flex-1 overflow-auto p-6">
+              {children}
+            </main>
+          </div>
+        </div>
+      </CollectionProvider>
+    </RoleProvider>
   )
 }
@@ -1,10 +1,10 @@
 /**
  * Purpose: Main dashboard page with chat interface
  * Logic:
- * - Renders the chat window component
+ * - Renders the chat workspace with the conversation list
  * Runtime context: Server Component
  */
-import { ChatWindow } from "../components/chat/chat-window"
+import { ChatWorkspace } from "../components/chat/chat-workspace"
 import { Card, CardDescription, CardHeader, CardTitle } from "../../components/ui/card"
 
 export default function DashboardPage() {
@@ -16,7 +16,7 @@ export default function DashboardPage() {
           <CardDescription>Ask questions about your API documentation</CardDescription>
         </CardHeader>
       </Card>
-      <ChatWindow />
+      <ChatWorkspace />
     </div>
   )
 }
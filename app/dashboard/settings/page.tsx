@@ -1,29 +1,16 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../../components/ui/card"
 import { SettingsForm } from "../../components/settings/settings-form"
-import { kv } from "@vercel/kv"
+import { getSettings } from "../../../lib/settings/storage"
+import { redirect } from "next/navigation"
+import { getUserRole, requireAuth } from "../../../lib/auth-server"
+import { hasPermission } from "../../../lib/roles"
 
-// Default settings
-const DEFAULT_SETTINGS = {
-  topK: 5,
-  temperature: 0.7,
-  hybridSearch: true,
-  chunkSize: {
-    text: 300,
-    code: 1000,
-  },
-}
-
-async function getSettings() {
-  try {
-    const settings = await kv.get("app:settings")
-    return settings || DEFAULT_SETTINGS
-  } catch (error) {
-    console.error("Failed to get settings:", error)
-    return DEFAULT_SETTINGS
+export default async function SettingsPage() {
+  // Settings are admin-only
+  if (!hasPermission(getUserRole(await requireAuth()), "settings")) {
+    redirect("/dashboard")
   }
-}
 
-export default async function SettingsPage() {
   const settings = await getSettings()
 
   return (
@@ -0,0 +1,334 @@
+/**
+ * Purpose: Chat model providers
+ * Logic:
+ * - Defines the ChatProvider interface and streaming providers for OpenAI,
+ *   Anthropic-style message APIs and OpenAI-compatible local endpoints (Ollama, vLLM)
+ * - Identifies a model as "provider:model" so a conversation can pin one
+ * - Lists the models the deployment is configured to serve
+ * Runtime context: Edge Function
+ * Services: OpenAI, Anthropic, or an OpenAI-compatible chat server
+ */
+import type { ChatMessage } from "./chat"
+
+export type ChatProviderType = "openai" | "anthropic" | "openai-compatible"
+
+export const CHAT_PROVIDER_TYPES: ChatProviderType[] = ["openai", "anthropic", "openai-compatible"]
+
+// Defaults for saved settings; match the previously hard-coded completion parameters
+export const DEFAULT_CHAT_PROVIDER: ChatProviderType = "openai"
+export const DEFAULT_CHAT_MODEL = "gpt-4"
+export const DEFAULT_TEMPERATURE = 0.7
+export const DEFAULT_MAX_TOKENS = 1000
+
+export interface ChatCompletionOptions {
+  model: string
+  temperature: number
+  maxTokens: number
+}
+
+export interface ChatProvider {
+  readonly name: ChatProviderType
+  // Streams the answer as UTF-8 encoded text
+  streamCompletion(messages: ChatMessage[], options: ChatCompletionOptions): Promise<ReadableStream<Uint8Array>>
+}
+
+// Settings fields that choose and configure the chat model
+export interface ChatSettings {
+  chatProvider?: ChatProviderType
+  chatModel?: string
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface ChatModelOption {
+  // "provider:model"
+  id: string
+  provider: ChatProviderType
+  model: string
+  label: string
+}
+
+// Models offered in the chat model picker when their provider is configured
+const CHAT_MODEL_CATALOG: Array<Omit<ChatModelOption, "id">> = [
+  { provider: "openai", model: "gpt-4o", label: "GPT-4o" },
+  { provider: "openai", model: "gpt-4o-mini", label: "GPT-4o mini" },
+  { provider: "openai", model: "gpt-4", label: "GPT-4" },
+  { provider: "anthropic", model: "claude-3-5-sonnet-latest", label: "Claude 3.5 Sonnet" },
+  { provider: "anthropic", model: "claude-3-5-haiku-latest", label: "Claude 3.5 Haiku" },
+]
+
+export function toModelId(provider: ChatProviderType, model: string): string {
+  return `${provider}:${model}`
+}
+
+// Splits on the first colon only; local model names such as "llama3.1:8b" contain colons
+export function parseModelId(id: string): { provider: ChatProviderType; model: string } | null {
+  const separator = id.indexOf(":")
+  if (separator === -1) return null
+
+  const provider = id.slice(0, separator) as ChatProviderType
+  const model = id.slice(separator + 1).trim()
+
+  if (!CHAT_PROVIDER_TYPES.includes(provider) || !model) return null
+  return { provider, model }
+}
+
+export function isProviderConfigured(provider: ChatProviderType): boolean {
+  switch (provider) {
+    case "anthropic":
+      return !!process.env.ANTHROPIC_API_KEY
+    case "openai-compatible":
+      return !!process.env.CHAT_BASE_URL
+    default:
+      return !!process.env.OPENAI_API_KEY
+  }
+}
+
+// Catalog models whose provider has credentials, plus the default model from settings
+export function listChatModels(settings: ChatSettings = {}): ChatModelOption[] {
+  const defaultId = toModelId(settings.chatProvider || DEFAULT_CHAT_PROVIDER, settings.chatModel || DEFAULT_CHAT_MODEL)
+  const models = CHAT_MODEL_CATALOG.filter((option) => isProviderConfigured(option.provider)).map((option) => ({
+    ...option,
+    id: toModelId(option.provider, option.model),
+  }))
+
+  if (!models.some((option) => option.id === defaultId)) {
+    const { provider, model } = parseModelId(defaultId)!
+    models.unshift({ id: defaultId, provider, model, label: model })
+  }
+
+  return models
+}
+
+// Requests may only pick models the chat UI offers; anything else could reach an unvetted, costly model
+export function isListedChatModel(settings: ChatSettings, modelId: string): boolean {
+  return listChatModels(settings).some((option) => option.id === modelId)
+}
+
+// Parses a server-sent event stream, buffering partial lines across network chunks.
+// extract returns the text carried by an event, or null once the stream is finished.
+function streamServerSentEvents(
+  response: Response,
+  extract: (event: string | undefined, data: string) => string | null | undefined,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+
+  return new ReadableStream({
+    async start(controller) {
+      const reader = response.body?.getReader()
+      if (!reader) {
+        controller.close()
+        return
+      }
+
+      const decoder = new TextDecoder()
+      let buffer = ""
+      let event: string | undefined
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read()
+          if (done) break
+
+          buffer += decoder.decode(value, { stream: true })
+          const lines = buffer.split("\n")
+          buffer = lines.pop() || ""
+
+          for (const rawLine of lines) {
+            const line = rawLine.trimEnd()
+            if (!line) {
+              event = undefined
+            } else if (line.startsWith("event:")) {
+              event = line.slice(6).trim()
+            } else if (line.startsWith("data:")) {
+              let text: string | null | undefined
+              try {
+                text = extract(event, line.slice(5).trim())
+              } catch (error) {
+                // Skip invalid JSON; anything else is a provider error
+                if (error instanceof SyntaxError) continue
+                throw error
+              }
+
+              if (text === null) {
+                controller.close()
+                return
+              }
+              if (text) {
+                controller.enqueue(encoder.encode(text))
+              }
+            }
+          }
+        }
+        controller.close()
+      } catch (error) {
+        controller.error(error)
+      } finally {
+        reader.releaseLock()
+      }
+    },
+  })
+}
+
+async function readError(response: Response): Promise<string> {
+  const body = await response.json().catch(() => ({}))
+  return body.error?.message || response.statusText || String(response.status)
+}
+
+// Extracts delta text from an OpenAI chat completions stream
+function openAIDelta(_event: string | undefined, data: string) {
+  if (data === "[DONE]") return null
+  return JSON.parse(data).choices?.[0]?.delta?.content as string | undefined
+}
+
+export class OpenAIChatProvider implements ChatProvider {
+  readonly name: ChatProviderType = "openai"
+
+  protected endpoint() {
+    return "https://api.openai.com/v1"
+  }
+
+  protected headers(): Record<string, string> {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error("Missing OPENAI_API_KEY environment variable")
+    }
+    return { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` }
+  }
+
+  async streamCompletion(messages: ChatMessage[], options: ChatCompletionOptions) {
+    const response = await fetch(`${this.endpoint()}/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.headers() },
+      body: JSON.stringify({
+        model: options.model,
+        messages,
+        stream: true,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`${this.name} chat API error: ${await readError(response)}`)
+    }
+
+    return streamServerSentEvents(response, openAIDelta)
+  }
+}
+
+export class OpenAICompatibleChatProvider extends OpenAIChatProvider {
+  readonly name: ChatProviderType = "openai-compatible"
+
+  protected endpoint() {
+    const baseUrl = process.env.CHAT_BASE_URL?.replace(/\/$/, "")
+    if (!baseUrl) {
+      throw new Error("Missing CHAT_BASE_URL environment variable")
+    }
+    return baseUrl
+  }
+
+  protected headers(): Record<string, string> {
+    return process.env.CHAT_API_KEY ? { Authorization: `Bearer ${process.env.CHAT_API_KEY}` } : {}
+  }
+}
+
+export class AnthropicChatProvider implements ChatProvider {
+  readonly name: ChatProviderType = "anthropic"
+
+  async streamCompletion(messages: ChatMessage[], options: ChatCompletionOptions) {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      throw new Error("Missing ANTHROPIC_API_KEY environment variable")
+    }
+
+    const baseUrl = (process.env.ANTHROPIC_BASE_URL || "https://api.anthropic.com").replace(/\/$/, "")
+    const { system, messages: conversation } = toAnthropicMessages(messages)
+
+    const response = await fetch(`${baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": process.env.ANTHROPIC_API_KEY,
+        "anthropic-version": "2023-06-01",
+      },
+      body: JSON.stringify({
+        model: options.model,
+        system,
+        messages: conversation,
+        stream: true,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`anthropic chat API error: ${await readError(response)}`)
+    }
+
+    return streamServerSentEvents(response, (event, data) => {
+      if (event === "message_stop") return null
+      if (event === "error") throw new Error(JSON.parse(data).error?.message || "Anthropic stream error")
+
+      const parsed = JSON.parse(data)
+      return parsed.type === "content_block_delta" ? (parsed.delta?.text as string | undefined) : undefined
+    })
+  }
+}
+
+// The messages API takes the system prompt separately and needs alternating turns starting with the user
+export function toAnthropicMessages(messages: ChatMessage[]): {
+  system: string
+  messages: Array<{ role: "user" | "assistant"; content: string }>
+} {
+  const system = messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content)
+    .join("\n\n")
+
+  const turns: Array<{ role: "user" | "assistant"; content: string }> = []
+  for (const message of messages) {
+    if (message.role === "system") continue
+    // Drop greetings or other assistant turns before the first question
+    if (turns.length === 0 && message.role === "assistant") continue
+
+    const previous = turns[turns.length - 1]
+    if (previous?.role === message.role) {
+      previous.content += `\n\n${message.content}`
+    } else {
+      turns.push({ role: message.role, content: message.content })
+    }
+  }
+
+  return { system, messages: turns }
+}
+
+export function createChatProvider(type: ChatProviderType = DEFAULT_CHAT_PROVIDER): ChatProvider {
+  switch (type) {
+    case "anthropic":
+      return new AnthropicChatProvider()
+    case "openai-compatible":
+      return new OpenAICompatibleChatProvider()
+    default:
+      return new OpenAIChatProvider()
+  }
+}
+
+// Resolves the provider and completion options for a request. A model pinned on the
+// conversation overrides the settings default; temperature and max tokens always come from settings.
+export function resolveChatModel(
+  settings: ChatSettings = {},
+  modelId?: string | null,
+): { provider: ChatProvider; options: ChatCompletionOptions; modelId: string } {
+  const selected = modelId ? parseModelId(modelId) : null
+  const provider = selected?.provider || settings.chatProvider || DEFAULT_CHAT_PROVIDER
+  const model = selected?.model || settings.chatModel || DEFAULT_CHAT_MODEL
+
+  return {
+    provider: createChatProvider(provider),
+    modelId: toModelId(provider, model),
+    options: {
+      model,
+      temperature: settings.temperature ?? DEFAULT_TEMPERATURE,
+      maxTokens: settings.maxTokens ?? DEFAULT_MAX_TOKENS,
+    },
+  }
+}
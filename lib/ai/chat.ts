@@ -3,17 +3,61 @@
  * Logic:
  * - Provides functions for chat message handling
  * - Formats messages for OpenAI API
+ * - Builds the source annotations sent alongside streamed answers
+ * - Streams completions through the configured chat provider
  * Runtime context: Edge Function
- * Services: OpenAI
+ * Services: OpenAI, Anthropic, or an OpenAI-compatible chat server
  */
 import type { Message } from "ai"
 import type { SearchResult } from "../pinecone/search"
+import { resolveChatModel } from "./chat-providers"
 
 export interface ChatMessage {
   role: "system" | "user" | "assistant"
   content: string
 }
 
+// Citation target for an [n] marker in an answer; index matches the context numbering
+export type SourceAnnotation = {
+  index: number
+  id: string
+  documentId: string
+  source: string
+  section: string | null
+  page: number | null
+  score: number
+  text: string
+  url: string | null
+}
+
+export const SOURCES_ANNOTATION_TYPE = "sources"
+
+// Chunk text sent to the client for citation previews
+const MAX_SOURCE_TEXT_CHARS = 1500
+
+export function buildSourceAnnotations(
+  searchResults: SearchResult[],
+  documentUrls: Record<string, string | undefined> = {},
+): SourceAnnotation[] {
+  return searchResults.map((result, index) => {
+    const metadata = result.metadata || {}
+    const documentId = metadata.documentId || ""
+    const text = result.text.length > MAX_SOURCE_TEXT_CHARS ? `${result.text.slice(0, MAX_SOURCE_TEXT_CHARS)}...` : result.text
+
+    return {
+      index: index + 1,
+      id: result.id,
+      documentId,
+      source: metadata.source || "Unknown source",
+      section: metadata.headingPath || metadata.section || null,
+      page: typeof metadata.page === "number" ? metadata.page : null,
+      score: result.score,
+      text,
+      url: documentUrls[documentId] || null,
+    }
+  })
+}
+
 export function formatMessagesForOpenAI(messages: Message[], context?: string): ChatMessage[] {
   const formattedMessages: ChatMessage[] = []
 
@@ -24,6 +68,7 @@ export function formatMessagesForOpenAI(messages: Message[], context?: string):
       content: `You are a helpful assistant that answers questions based on the provided context. 
       Only use information from the context to answer the question. 
       If you don't know the answer based on the context, say so.
+      Cite your sources using the numbers in brackets, e.g. [1], [2].
       
       Context:
       ${context}`,
@@ -57,8 +102,10 @@ export function buildContextFromSearchResults(searchResults: SearchResult[]): st
     .map((result, index) => {
       const metadata = result.metadata || {}
 
+      const page = metadata.page ? `\nPage: ${metadata.page}` : ""
+
       return `[${index + 1}] ${metadata.source || "Unknown source"}
-Section: ${metadata.section || "N/A"}
+Section: ${metadata.headingPath || metadata.section || "N/A"}${page}
 Content:
 ${result.text}
 `
@@ -66,78 +113,10 @@ ${result.text}
     .join("\n\n")
 }
 
-// Missing export - streaming chat completion
+// Streams an answer from the resolved chat model (settings default unless a model is pinned)
 export async function streamChatCompletion(
   messages: ChatMessage[],
-  onChunk?: (chunk: string) => void,
-): Promise<ReadableStream> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("Missing OPENAI_API_KEY environment variable")
-  }
-
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: "gpt-4",
-      messages,
-      stream: true,
-      temperature: 0.7,
-      max_tokens: 1000,
-    }),
-  })
-
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.status}`)
-  }
-
-  const stream = new ReadableStream({
-    async start(controller) {
-      const reader = response.body?.getReader()
-      if (!reader) {
-        controller.close()
-        return
-      }
-
-      try {
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) break
-
-          const chunk = new TextDecoder().decode(value)
-          const lines = chunk.split("\n").filter((line) => line.trim())
-
-          for (const line of lines) {
-            if (line.startsWith("data: ")) {
-              const data = line.slice(6)
-              if (data === "[DONE]") {
-                controller.close()
-                return
-              }
-
-              try {
-                const parsed = JSON.parse(data)
-                const content = parsed.choices?.[0]?.delta?.content
-                if (content) {
-                  onChunk?.(content)
-                  controller.enqueue(new TextEncoder().encode(content))
-                }
-              } catch (e) {
-                // Skip invalid JSON
-              }
-            }
-          }
-        }
-      } catch (error) {
-        controller.error(error)
-      } finally {
-        reader.releaseLock()
-      }
-    },
-  })
-
-  return stream
+  { provider, options }: Pick<ReturnType<typeof resolveChatModel>, "provider" | "options"> = resolveChatModel(),
+): Promise<ReadableStream<Uint8Array>> {
+  return provider.streamCompletion(messages, options)
 }
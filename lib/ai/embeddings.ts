@@ -1,37 +1,74 @@
 /**
  * Purpose: Embedding generation utilities
  * Logic:
- * - Generates embeddings for text using OpenAI text-embedding-3-large
- * - Handles batching and rate limiting
- * - Ensures consistent 3072-dimensional embeddings
+ * - Defines the EmbeddingProvider interface and the providers behind it:
+ *   OpenAI, Azure OpenAI, OpenAI-compatible local servers (Ollama, vLLM) and a
+ *   deterministic hash provider for tests and offline evaluation
+ * - Selects the provider from settings
+ * - Validates embedding dimensions per vector and against the Pinecone index
  * Runtime context: Edge Function
- * Services: OpenAI
+ * Services: OpenAI, Azure OpenAI, or an OpenAI-compatible embedding server
  */
+import { getSettings } from "../settings/storage"
 import { retry } from "../utils/retry"
+import { tokenizeKeywords } from "../pinecone/keyword-index"
 
-// Constants for the embedding model
+// Defaults for the OpenAI provider
 export const EMBEDDING_MODEL = "text-embedding-3-large"
 export const EMBEDDING_DIMENSIONS = 3072
 
-export const createEmbedding = async (text: string): Promise<number[]> => {
+export const HASH_EMBEDDING_DIMENSIONS = 512
+
+export type EmbeddingProviderType = "openai" | "azure" | "openai-compatible" | "hash"
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderType
+  readonly model: string
+  readonly dimensions: number
+  // Returns one vector per input, in order
+  embed(texts: string[]): Promise<number[][]>
+}
+
+// Settings fields that choose and configure the provider
+export interface EmbeddingSettings {
+  embeddingProvider?: EmbeddingProviderType
+  embeddingModel?: string
+  embeddingDimensions?: number
+}
+
+// Only the text-embedding-3 models accept a dimensions parameter; older models such as
+// text-embedding-ada-002 reject requests that include it
+function dimensionsParam(model: string, dimensions: number): { dimensions?: number } {
+  return model.startsWith("text-embedding-3") ? { dimensions } : {}
+}
+
+interface EmbeddingRequest {
+  url: string
+  headers: Record<string, string>
+  body: Record<string, unknown>
+}
+
+function checkDimensions(provider: EmbeddingProvider, embedding: number[]) {
+  if (embedding.length !== provider.dimensions) {
+    throw new Error(
+      `Embedding dimension mismatch: expected ${provider.dimensions}, got ${embedding.length}. Model: ${provider.model}`,
+    )
+  }
+}
+
+// Shared request path for every provider that speaks the OpenAI embeddings API
+async function requestEmbeddings(provider: EmbeddingProvider, request: EmbeddingRequest): Promise<number[][]> {
   const response = await retry(
     async () => {
-      const result = await fetch("https://api.openai.com/v1/embeddings", {
+      const result = await fetch(request.url, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify({
-          input: text,
-          model: EMBEDDING_MODEL,
-          dimensions: EMBEDDING_DIMENSIONS,
-        }),
+        headers: { "Content-Type": "application/json", ...request.headers },
+        body: JSON.stringify(request.body),
       })
 
       if (!result.ok) {
-        const error = await result.json()
-        throw new Error(`OpenAI API error: ${error.error?.message || "Unknown error"}`)
+        const error = await result.json().catch(() => ({}))
+        throw new Error(`${provider.name} embedding API error: ${error.error?.message || result.statusText}`)
       }
 
       return result.json()
@@ -43,71 +80,196 @@ export const createEmbedding = async (text: string): Promise<number[]> => {
     },
   )
 
-  const embedding = response.data[0].embedding
+  // Responses are not guaranteed to be in input order
+  const data = [...response.data].sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+
+  return data.map((item: { embedding: number[] }) => {
+    checkDimensions(provider, item.embedding)
+    return item.embedding
+  })
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai" as const
+
+  constructor(
+    readonly model = EMBEDDING_MODEL,
+    readonly dimensions = EMBEDDING_DIMENSIONS,
+  ) {}
+
+  embed(texts: string[]): Promise<number[][]> {
+    return requestEmbeddings(this, {
+      url: "https://api.openai.com/v1/embeddings",
+      headers: { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` },
+      body: { input: texts, model: this.model, ...dimensionsParam(this.model, this.dimensions) },
+    })
+  }
+}
+
+export class AzureOpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "azure" as const
+
+  constructor(
+    readonly model = EMBEDDING_MODEL,
+    readonly dimensions = EMBEDDING_DIMENSIONS,
+  ) {}
+
+  embed(texts: string[]): Promise<number[][]> {
+    const endpoint = process.env.AZURE_OPENAI_ENDPOINT?.replace(/\/$/, "")
+    const deployment = process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT || this.model
+    const apiVersion = process.env.AZURE_OPENAI_API_VERSION || "2024-02-01"
+
+    if (!endpoint) {
+      throw new Error("Missing required environment variable: AZURE_OPENAI_ENDPOINT")
+    }
+
+    return requestEmbeddings(this, {
+      url: `${endpoint}/openai/deployments/${deployment}/embeddings?api-version=${apiVersion}`,
+      headers: { "api-key": process.env.AZURE_OPENAI_API_KEY || "" },
+      body: { input: texts, ...dimensionsParam(this.model, this.dimensions) },
+    })
+  }
+}
+
+// Local servers such as Ollama or vLLM; most reject the dimensions parameter, so the
+// configured dimensions must match what the model produces
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai-compatible" as const
+
+  constructor(
+    readonly model = "nomic-embed-text",
+    readonly dimensions = 768,
+  ) {}
+
+  embed(texts: string[]): Promise<number[][]> {
+    const baseUrl = process.env.EMBEDDING_BASE_URL?.replace(/\/$/, "")
+
+    if (!baseUrl) {
+      throw new Error("Missing required environment variable: EMBEDDING_BASE_URL")
+    }
+
+    return requestEmbeddings(this, {
+      url: `${baseUrl}/embeddings`,
+      headers: process.env.EMBEDDING_API_KEY ? { Authorization: `Bearer ${process.env.EMBEDDING_API_KEY}` } : {},
+      body: { input: texts, model: this.model },
+    })
+  }
+}
+
+// FNV-1a, 32-bit
+function hash(value: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+// Hashes keyword tokens and character trigrams into a fixed-size vector. Deterministic and
+// offline, so tests and evaluations are reproducible; not a substitute for a real model.
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "hash" as const
+  readonly model = "feature-hash"
+
+  constructor(readonly dimensions = HASH_EMBEDDING_DIMENSIONS) {}
+
+  embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0)
+
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature)
+      // The top bit picks the sign so unrelated features tend to cancel out
+      vector[h % this.dimensions] += h & 0x80000000 ? -weight : weight
+    }
+
+    for (const token of tokenizeKeywords(text)) {
+      add(`t:${token}`, 1)
+
+      // Trigrams give partial credit to inflections and compound identifiers
+      const padded = `#${token}#`
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`g:${padded.slice(i, i + 3)}`, 0.25)
+      }
+    }
+
+    // L2-normalize so cosine similarity behaves like real embeddings
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+    return norm > 0 ? vector.map((value) => value / norm) : vector
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text))
+  }
+}
+
+export function createEmbeddingProvider(settings: EmbeddingSettings = {}): EmbeddingProvider {
+  const { embeddingProvider = "openai", embeddingModel, embeddingDimensions } = settings
+
+  switch (embeddingProvider) {
+    case "azure":
+      return new AzureOpenAIEmbeddingProvider(embeddingModel || undefined, embeddingDimensions || undefined)
+    case "openai-compatible":
+      return new OpenAICompatibleEmbeddingProvider(embeddingModel || undefined, embeddingDimensions || undefined)
+    case "hash":
+      return new HashEmbeddingProvider(embeddingDimensions || undefined)
+    default:
+      return new OpenAIEmbeddingProvider(embeddingModel || undefined, embeddingDimensions || undefined)
+  }
+}
+
+// Builds the provider chosen in the saved app settings
+export async function getEmbeddingProvider(): Promise<EmbeddingProvider> {
+  try {
+    return createEmbeddingProvider(await getSettings())
+  } catch (error) {
+    console.error("[EMBEDDINGS] Failed to read settings, using the OpenAI provider:", error)
+    return createEmbeddingProvider()
+  }
+}
+
+// Provider configurations already checked against the index in this isolate
+const validatedIndexes = new Set<string>()
+
+// Fails fast when the provider's vectors cannot be stored in or queried against the index
+export async function validateIndexDimensions(
+  provider: EmbeddingProvider,
+  index: { describeIndexStats(): Promise<{ dimension: number }> },
+): Promise<void> {
+  const key = `${provider.name}:${provider.model}:${provider.dimensions}`
+  if (validatedIndexes.has(key)) return
 
-  // Validate embedding dimensions
-  if (embedding.length !== EMBEDDING_DIMENSIONS) {
+  const { dimension } = await index.describeIndexStats()
+  if (dimension && dimension !== provider.dimensions) {
     throw new Error(
-      `Embedding dimension mismatch: expected ${EMBEDDING_DIMENSIONS}, got ${embedding.length}. Model: ${EMBEDDING_MODEL}`,
+      `Embedding dimension mismatch: ${provider.name} model ${provider.model} produces ${provider.dimensions} dimensions but the Pinecone index has ${dimension}`,
     )
   }
 
+  validatedIndexes.add(key)
+}
+
+export const createEmbedding = async (
+  text: string,
+  provider: EmbeddingProvider = createEmbeddingProvider(),
+): Promise<number[]> => {
+  const [embedding] = await provider.embed([text])
   return embedding
 }
 
-export const createEmbeddingBatch = async (texts: string[], batchSize = 20): Promise<number[][]> => {
+export const createEmbeddingBatch = async (
+  texts: string[],
+  batchSize = 20,
+  provider: EmbeddingProvider = createEmbeddingProvider(),
+): Promise<number[][]> => {
   const embeddings: number[][] = []
 
   // Process in batches to avoid rate limits
   for (let i = 0; i < texts.length; i += batchSize) {
-    const batch = texts.slice(i, i + batchSize)
-
-    const response = await retry(
-      async () => {
-        const result = await fetch("https://api.openai.com/v1/embeddings", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-          },
-          body: JSON.stringify({
-            input: batch,
-            model: EMBEDDING_MODEL,
-            dimensions: EMBEDDING_DIMENSIONS,
-          }),
-        })
-
-        if (!result.ok) {
-          const error = await result.json()
-          throw new Error(`OpenAI API error: ${error.error?.message || "Unknown error"}`)
-        }
-
-        return result.json()
-      },
-      {
-        retries: 3,
-        minTimeout: 1000,
-        factor: 2,
-      },
-    )
-
-    const batchEmbeddings = response.data.map((item: any) => {
-      const embedding = item.embedding
-
-      // Validate each embedding's dimensions
-      if (embedding.length !== EMBEDDING_DIMENSIONS) {
-        throw new Error(
-          `Embedding dimension mismatch in batch: expected ${EMBEDDING_DIMENSIONS}, got ${embedding.length}. Model: ${EMBEDDING_MODEL}`,
-        )
-      }
-
-      return embedding
-    })
-
-    embeddings.push(...batchEmbeddings)
+    embeddings.push(...(await provider.embed(texts.slice(i, i + batchSize))))
 
     // Sleep to avoid rate limits if not the last batch
-    if (i + batchSize < texts.length) {
+    if (i + batchSize < texts.length && provider.name !== "hash") {
       await new Promise((resolve) => setTimeout(resolve, 200))
     }
   }
@@ -0,0 +1,127 @@
+/**
+ * Purpose: Conversation-aware query rewriting
+ * Logic:
+ * - Condenses the latest user turn and recent history into a standalone search query
+ * - Optionally decomposes multi-part questions into sub-queries searched separately
+ * - Uses the chat request's provider (OpenAI, Anthropic or OpenAI-compatible); on OpenAI a small model is enough
+ * - Falls back to the raw user message when rewriting is unnecessary or fails
+ * Runtime context: Edge Function
+ * Services: Chat provider
+ */
+import type { Message } from "ai"
+import { retry } from "../utils/retry"
+import { resolveChatModel } from "./chat-providers"
+
+export const REWRITE_MODEL = "gpt-4o-mini"
+
+export interface RewriteOptions {
+  // Previous messages considered when resolving references like "it"
+  maxHistory?: number
+  // Also produce sub-queries for questions that cover several topics
+  subQueries?: boolean
+  maxSubQueries?: number
+  // Provider and model of the chat request; the settings default when omitted
+  chatModel?: Pick<ReturnType<typeof resolveChatModel>, "provider" | "options">
+}
+
+export interface RewrittenQuery {
+  // Standalone query used for retrieval
+  query: string
+  // Additional focused queries whose results are merged with the main query
+  subQueries: string[]
+  // Whether the query differs from the user's last message
+  rewritten: boolean
+}
+
+// Long assistant answers add little for reference resolution and cost tokens
+const MAX_HISTORY_MESSAGE_CHARS = 600
+// A query and a few sub-queries fit comfortably
+const REWRITE_MAX_TOKENS = 300
+
+export async function rewriteQuery(messages: Message[], options: RewriteOptions = {}): Promise<RewrittenQuery> {
+  const { maxHistory = 6, subQueries = false, maxSubQueries = 3, chatModel = resolveChatModel() } = options
+
+  const conversation = messages.filter((message) => message.role === "user" || message.role === "assistant")
+  const lastMessage = conversation[conversation.length - 1]
+  const original = lastMessage?.role === "user" ? lastMessage.content.trim() : ""
+  const fallback: RewrittenQuery = { query: original, subQueries: [], rewritten: false }
+
+  if (!original) {
+    return fallback
+  }
+
+  const history = conversation.slice(0, -1).slice(-maxHistory)
+  const hasUserHistory = history.some((message) => message.role === "user")
+
+  // A first question is already standalone; only decomposition would change it
+  if (!hasUserHistory && !subQueries) {
+    return fallback
+  }
+
+  const transcript = history
+    .map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${truncate(message.content)}`)
+    .join("\n")
+
+  const instructions = [
+    "Rewrite the user's latest message into a standalone search query for Unreal Engine documentation.",
+    "Resolve pronouns and references using the conversation, keep exact identifiers (class names, console variables, macros) verbatim, and do not answer the question.",
+    subQueries
+      ? `If the message asks about several distinct topics, also return up to ${maxSubQueries} focused sub-queries; otherwise return an empty list.`
+      : "Return an empty list of sub-queries.",
+    'Reply with JSON {"query": string, "subQueries": string[]} and nothing else.',
+  ].join(" ")
+
+  const { provider, options: completion } = chatModel
+  const model = provider.name === "openai" ? REWRITE_MODEL : completion.model
+
+  try {
+    const reply = await retry(
+      async () =>
+        readText(
+          await provider.streamCompletion(
+            [
+              { role: "system", content: instructions },
+              {
+                role: "user",
+                content: `Conversation:\n${transcript || "(none)"}\n\nLatest message: ${original}`,
+              },
+            ],
+            { model, temperature: 0, maxTokens: REWRITE_MAX_TOKENS },
+          ),
+        ),
+      { retries: 2, minTimeout: 500, factor: 2 },
+    )
+
+    // Not every provider has a JSON mode, so take the object out of any surrounding text
+    const parsed = JSON.parse(reply.slice(reply.indexOf("{"), reply.lastIndexOf("}") + 1) || "{}")
+    const query = typeof parsed.query === "string" && parsed.query.trim() ? parsed.query.trim() : original
+    const extra: string[] = Array.isArray(parsed.subQueries)
+      ? parsed.subQueries
+          .filter((item: unknown): item is string => typeof item === "string" && !!item.trim())
+          .map((item: string) => item.trim())
+          .filter((item: string) => item.toLowerCase() !== query.toLowerCase())
+          .slice(0, subQueries ? maxSubQueries : 0)
+      : []
+
+    return { query, subQueries: extra, rewritten: query !== original }
+  } catch (error) {
+    console.error("[REWRITE] Query rewriting failed, using the original message:", error)
+    return fallback
+  }
+}
+
+async function readText(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  let text = ""
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    text += decoder.decode(value, { stream: true })
+  }
+  return text + decoder.decode()
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_HISTORY_MESSAGE_CHARS ? `${text.slice(0, MAX_HISTORY_MESSAGE_CHARS)}...` : text
+}
@@ -0,0 +1,138 @@
+/**
+ * Purpose: Reranking of retrieved chunks
+ * Logic:
+ * - Rescores (query, chunk) pairs after vector/hybrid retrieval
+ * - LLM reranker asks a small chat model for relevance grades in one call
+ * - Heuristic reranker scores term coverage locally, for tests and offline runs
+ * Runtime context: Edge Function
+ * Services: OpenAI (LLM reranker only)
+ */
+import { retry } from "../utils/retry"
+import { tokenizeKeywords } from "../pinecone/keyword-index"
+import type { SearchResult } from "../pinecone/search"
+
+export type RerankerType = "none" | "heuristic" | "llm"
+
+export const RERANKER_TYPES: RerankerType[] = ["none", "heuristic", "llm"]
+
+export function isRerankerType(value: unknown): value is RerankerType {
+  return typeof value === "string" && RERANKER_TYPES.includes(value as RerankerType)
+}
+
+export interface Reranker {
+  readonly name: string
+  // Returns one relevance score in [0, 1] per result, in the same order
+  rerank(query: string, results: SearchResult[]): Promise<number[]>
+}
+
+export const RERANK_MODEL = "gpt-4o-mini"
+
+// Passage length sent to the LLM; enough to judge relevance without paying for whole chunks
+const MAX_PASSAGE_CHARS = 1200
+
+export class LLMReranker implements Reranker {
+  readonly name = "llm"
+
+  constructor(private model = RERANK_MODEL) {}
+
+  async rerank(query: string, results: SearchResult[]): Promise<number[]> {
+    if (results.length === 0) return []
+
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error("Missing OPENAI_API_KEY environment variable")
+    }
+
+    const passages = results
+      .map((result, index) => {
+        const section = result.metadata?.headingPath || result.metadata?.section
+        const header = section ? `[${index}] (${section})` : `[${index}]`
+        return `${header}\n${result.text.slice(0, MAX_PASSAGE_CHARS)}`
+      })
+      .join("\n\n")
+
+    const response = await retry(
+      async () => {
+        const result = await fetch("https://api.openai.com/v1/chat/completions", {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            model: this.model,
+            temperature: 0,
+            response_format: { type: "json_object" },
+            messages: [
+              {
+                role: "system",
+                content:
+                  'You grade how well documentation passages answer a search query. Reply with JSON {"scores": [...]} containing one integer from 0 (irrelevant) to 10 (directly answers the query) per passage, in passage order.',
+              },
+              { role: "user", content: `Query: ${query}\n\nPassages:\n\n${passages}` },
+            ],
+          }),
+        })
+
+        if (!result.ok) {
+          const error = await result.json().catch(() => ({}))
+          throw new Error(`OpenAI API error: ${error.error?.message || result.status}`)
+        }
+
+        return result.json()
+      },
+      { retries: 2, minTimeout: 500, factor: 2 },
+    )
+
+    const content = response.choices?.[0]?.message?.content || "{}"
+    const scores: unknown = JSON.parse(content).scores
+
+    if (!Array.isArray(scores) || scores.length !== results.length) {
+      const count = Array.isArray(scores) ? scores.length : 0
+      throw new Error(`Reranker returned ${count} scores for ${results.length} passages`)
+    }
+
+    return scores.map((score) => Math.min(1, Math.max(0, Number(score) / 10 || 0)))
+  }
+}
+
+/**
+ * Local scoring from query term coverage, exact identifier matches and heading matches
+ */
+export class HeuristicReranker implements Reranker {
+  readonly name = "heuristic"
+
+  async rerank(query: string, results: SearchResult[]): Promise<number[]> {
+    const queryTerms = Array.from(new Set(tokenizeKeywords(query)))
+    if (queryTerms.length === 0) {
+      return results.map(() => 0)
+    }
+
+    // Dotted or scoped identifiers (r.Lumen.HardwareRayTracing, FVector::ZeroVector) are strong signals
+    const identifiers = queryTerms.filter((term) => /\.|::|->/.test(term))
+
+    return results.map((result) => {
+      const chunkTerms = new Set(tokenizeKeywords(result.text))
+      const headingTerms = new Set(tokenizeKeywords(result.metadata?.headingPath || result.metadata?.section || ""))
+
+      const coverage = queryTerms.filter((term) => chunkTerms.has(term)).length / queryTerms.length
+      const headingMatch = queryTerms.filter((term) => headingTerms.has(term)).length / queryTerms.length
+      const identifierMatch =
+        identifiers.length > 0 ? identifiers.filter((term) => chunkTerms.has(term)).length / identifiers.length : 0
+
+      return identifiers.length > 0
+        ? 0.5 * coverage + 0.3 * identifierMatch + 0.2 * headingMatch
+        : 0.75 * coverage + 0.25 * headingMatch
+    })
+  }
+}
+
+export function createReranker(type: RerankerType = "none"): Reranker | undefined {
+  switch (type) {
+    case "llm":
+      return new LLMReranker()
+    case "heuristic":
+      return new HeuristicReranker()
+    default:
+      return undefined
+  }
+}
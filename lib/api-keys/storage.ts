@@ -0,0 +1,184 @@
+/**
+ * Purpose: API key storage and verification
+ * Logic:
+ * - Tokens are random and shown once; only their SHA-256 hash is stored, so a KV leak exposes no usable key
+ * - A key records only its owner's id; requests made with it look up the owner's current role, so demoting
+ *   or deleting a user takes effect on their keys immediately
+ * - Revoking deletes the key; expired keys stop verifying and are removed on their next use
+ * Runtime context: Edge Function
+ * Services: Vercel KV
+ *
+ * Key layout:
+ * - apikey:{id}              key record
+ * - apikey:hash:{sha256}     key id for a token hash
+ * - user:{userId}:apikeys    sorted set of key ids scored by creation time
+ */
+import { kv } from "@vercel/kv"
+import { isApiKeyScope, type ApiKey, type ApiKeyScope } from "./types"
+
+export * from "./types"
+
+interface ApiKeyRecord extends ApiKey {
+  userId: string
+  hash: string
+}
+
+export interface ApiKeyInput {
+  name: string
+  scopes: ApiKeyScope[]
+  expiresInDays?: number
+}
+
+export const API_KEY_PREFIX = "llmg_"
+
+const MAX_NAME_LENGTH = 60
+const MAX_KEYS_PER_USER = 20
+const MAX_EXPIRY_DAYS = 365
+const PREFIX_LENGTH = API_KEY_PREFIX.length + 6
+// Last-used times are approximate; at most one write per key per interval
+const LAST_USED_INTERVAL_MS = 60 * 1000
+
+function keyRecordKey(id: string) {
+  return `apikey:${id}`
+}
+
+function hashKey(hash: string) {
+  return `apikey:hash:${hash}`
+}
+
+function userKeysKey(userId: string) {
+  return `user:${userId}:apikeys`
+}
+
+async function hashToken(token: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token)))
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return API_KEY_PREFIX + Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+// Picks the public fields; records from before the owner's role was looked up live also carry email and role
+function toApiKey({ id, name, prefix, scopes, createdAt, lastUsedAt, expiresAt }: ApiKeyRecord): ApiKey {
+  return { id, name, prefix, scopes, createdAt, lastUsedAt, expiresAt }
+}
+
+export function validateApiKeyInput(input: unknown): { input?: ApiKeyInput; error?: string } {
+  if (!input || typeof input !== "object") {
+    return { error: "API key must be an object" }
+  }
+
+  const { name, scopes, expiresInDays } = input as Record<string, unknown>
+
+  if (typeof name !== "string" || !name.trim()) {
+    return { error: "Name is required" }
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return { error: `Name must be at most ${MAX_NAME_LENGTH} characters` }
+  }
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+    return { error: "Scopes must be a non-empty list of: search, upload" }
+  }
+  if (
+    expiresInDays !== undefined &&
+    expiresInDays !== null &&
+    (typeof expiresInDays !== "number" ||
+      !Number.isInteger(expiresInDays) ||
+      expiresInDays < 1 ||
+      expiresInDays > MAX_EXPIRY_DAYS)
+  ) {
+    return { error: `expiresInDays must be a whole number between 1 and ${MAX_EXPIRY_DAYS}` }
+  }
+
+  return {
+    input: {
+      name: name.trim(),
+      scopes: Array.from(new Set(scopes)),
+      expiresInDays: typeof expiresInDays === "number" ? expiresInDays : undefined,
+    },
+  }
+}
+
+export async function listApiKeys(userId: string): Promise<ApiKey[]> {
+  const ids = await kv.zrange<string[]>(userKeysKey(userId), 0, -1, { rev: true })
+  if (ids.length === 0) return []
+
+  const records = await kv.mget<(ApiKeyRecord | null)[]>(...ids.map(keyRecordKey))
+  return records.filter((record): record is ApiKeyRecord => !!record).map(toApiKey)
+}
+
+/**
+ * Create a key for a user. Returns the token, which is not stored and cannot
+ * be shown again.
+ */
+export async function createApiKey(
+  userId: string,
+  input: ApiKeyInput,
+): Promise<{ apiKey?: ApiKey; token?: string; error?: string }> {
+  if ((await kv.zcard(userKeysKey(userId))) >= MAX_KEYS_PER_USER) {
+    return { error: `You can have at most ${MAX_KEYS_PER_USER} API keys; revoke one first` }
+  }
+
+  const token = generateToken()
+  const now = new Date()
+  const record: ApiKeyRecord = {
+    id: `key-${crypto.randomUUID()}`,
+    name: input.name,
+    prefix: token.slice(0, PREFIX_LENGTH),
+    scopes: input.scopes,
+    createdAt: now.toISOString(),
+    expiresAt: input.expiresInDays
+      ? new Date(now.getTime() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : undefined,
+    userId,
+    hash: await hashToken(token),
+  }
+
+  await kv.set(keyRecordKey(record.id), record)
+  await kv.set(hashKey(record.hash), record.id)
+  await kv.zadd(userKeysKey(userId), { score: now.getTime(), member: record.id })
+
+  console.log(`[API KEYS] Created key ${record.id} for user ${userId}`)
+  return { apiKey: toApiKey(record), token }
+}
+
+export async function revokeApiKey(userId: string, id: string): Promise<boolean> {
+  const record = await kv.get<ApiKeyRecord>(keyRecordKey(id))
+  if (!record || record.userId !== userId) return false
+
+  await kv.del(hashKey(record.hash))
+  await kv.del(keyRecordKey(id))
+  await kv.zrem(userKeysKey(userId), id)
+
+  console.log(`[API KEYS] Revoked key ${id} for user ${userId}`)
+  return true
+}
+
+/**
+ * Look up the key for a bearer token. Returns null for unknown, revoked or
+ * expired tokens.
+ */
+export async function verifyApiKey(token: string): Promise<(ApiKey & { userId: string }) | null> {
+  if (!token.startsWith(API_KEY_PREFIX)) return null
+
+  const id = await kv.get<string>(hashKey(await hashToken(token)))
+  if (!id) return null
+
+  const record = await kv.get<ApiKeyRecord>(keyRecordKey(id))
+  if (!record) return null
+
+  if (record.expiresAt && Date.parse(record.expiresAt) <= Date.now()) {
+    await revokeApiKey(record.userId, record.id)
+    return null
+  }
+
+  const now = Date.now()
+  if (!record.lastUsedAt || now - Date.parse(record.lastUsedAt) > LAST_USED_INTERVAL_MS) {
+    record.lastUsedAt = new Date(now).toISOString()
+    await kv.set(keyRecordKey(record.id), record)
+  }
+
+  return { ...toApiKey(record), userId: record.userId }
+}
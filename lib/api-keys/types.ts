@@ -0,0 +1,51 @@
+/**
+ * Purpose: API key types shared by the server and the dashboard
+ * Logic:
+ * - Kept free of server imports so client components can use them
+ * - A key acts as its owner, limited to its scopes; it never grants more than the owner's current role
+ * Runtime context: Edge Function or browser
+ */
+import { hasPermission, type Permission, type Role } from "../roles"
+
+export type ApiKeyScope = "search" | "upload"
+
+export const API_KEY_SCOPES: Record<ApiKeyScope, { label: string; description: string; permissions: Permission[] }> = {
+  search: {
+    label: "Search",
+    description: "Search, chat, and read documents and ingestion jobs",
+    permissions: ["search"],
+  },
+  upload: {
+    label: "Upload",
+    description: "Upload, re-process and delete documents",
+    permissions: ["documents:write"],
+  },
+}
+
+// What the dashboard and the API return; the token itself is only shown once, at creation
+export interface ApiKey {
+  id: string
+  name: string
+  // First characters of the token, to tell keys apart
+  prefix: string
+  scopes: ApiKeyScope[]
+  createdAt: string
+  lastUsedAt?: string
+  expiresAt?: string
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === "string" && value in API_KEY_SCOPES
+}
+
+// The scopes, of those given, whose permissions the role has
+export function scopesAllowedFor(
+  role: Role,
+  scopes: ApiKeyScope[] = Object.keys(API_KEY_SCOPES) as ApiKeyScope[],
+): ApiKeyScope[] {
+  return scopes.filter((scope) => API_KEY_SCOPES[scope].permissions.every((permission) => hasPermission(role, permission)))
+}
+
+export function scopesAllow(scopes: ApiKeyScope[], permission: Permission): boolean {
+  return scopes.some((scope) => API_KEY_SCOPES[scope].permissions.includes(permission))
+}
@@ -76,3 +76,14 @@ export async function getCurrentUser() {
     return null
   }
 }
+
+/**
+ * Gets where to go after signing in: the page the middleware sent the user
+ * away from, or the dashboard. Only same-site paths are followed.
+ * ONLY use in client components
+ */
+export function getRedirectPath() {
+  const redirectTo = new URLSearchParams(window.location.search).get("redirectTo")
+  // "//host" and "/\host" are protocol-relative URLs to another site
+  return redirectTo && /^\/(?![/\\])/.test(redirectTo) ? redirectTo : "/dashboard"
+}
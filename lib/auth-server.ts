@@ -8,8 +8,12 @@
  */
 
 import { createServerClient } from "@supabase/ssr"
-import { cookies } from "next/headers"
+import { createClient } from "@supabase/supabase-js"
+import { cookies, headers } from "next/headers"
 import type { Database } from "@/types/supabase"
+import type { User } from "@supabase/supabase-js"
+import { hasPermission, isRole, type Permission, type Role } from "./roles"
+import { scopesAllow, scopesAllowedFor, verifyApiKey, type ApiKeyScope } from "./api-keys/storage"
 
 // Environment validation
 const requiredEnvs = ["NEXT_PUBLIC_SUPABASE_URL", "NEXT_PUBLIC_SUPABASE_ANON_KEY"] as const
@@ -54,8 +58,36 @@ export async function getSupabaseServer() {
   )
 }
 
+// The signed-in user, or the owner of the API key a request was made with
+export type AuthUser = Pick<User, "id" | "email" | "app_metadata"> & {
+  apiKey?: { id: string; scopes: ApiKeyScope[] }
+}
+
+/**
+ * Looks up a user by id with the service role key. API key requests use it to
+ * resolve the key owner's current account, since there is no session to read.
+ * Returns null when the user no longer exists.
+ */
+async function getUserById(userId: string): Promise<User | null> {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error("Missing required environment variable: SUPABASE_SERVICE_ROLE_KEY")
+  }
+
+  const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const { data, error } = await supabase.auth.admin.getUserById(userId)
+  if (error) {
+    if (error.status === 404) return null
+    throw error
+  }
+  return data.user
+}
+
 /**
  * Requires authentication for API routes
+ * Accepts a Supabase session cookie or an "Authorization: Bearer <API key>" header
  * Throws an error if the user is not authenticated
  *
  * Usage in API routes:
@@ -71,7 +103,30 @@ export async function getSupabaseServer() {
  * }
  * ```
  */
-export async function requireAuth() {
+export async function requireAuth(): Promise<AuthUser> {
+  // A bearer token is checked on its own; an invalid key never falls back to the session
+  const authorization = (await headers()).get("authorization")
+  if (authorization?.startsWith("Bearer ")) {
+    const apiKey = await verifyApiKey(authorization.slice("Bearer ".length).trim())
+    if (!apiKey) {
+      throw new Error("Unauthorized")
+    }
+
+    // The owner's role is read on every request, so demoted or deleted users lose access at once
+    const owner = await getUserById(apiKey.userId)
+    if (!owner) {
+      throw new Error("Unauthorized")
+    }
+
+    return {
+      id: owner.id,
+      email: owner.email,
+      app_metadata: owner.app_metadata,
+      // Scopes the owner's current role no longer covers are dropped
+      apiKey: { id: apiKey.id, scopes: scopesAllowedFor(getUserRole(owner), apiKey.scopes) },
+    }
+  }
+
   const supabase = await getSupabaseServer()
   const { data, error } = await supabase.auth.getUser()
 
@@ -81,3 +136,70 @@ export async function requireAuth() {
 
   return data.user
 }
+
+let warnedNoRoleConfig = false
+
+/**
+ * Resolves a user's role. Roles are set in the user's app_metadata (users
+ * cannot edit it themselves); ADMIN_EMAILS bootstraps admins once their email
+ * is confirmed, and everyone else gets DEFAULT_USER_ROLE, or viewer when unset.
+ */
+export function getUserRole(user: Pick<User, "email" | "email_confirmed_at" | "app_metadata">): Role {
+  const assigned = user.app_metadata?.role
+  if (isRole(assigned)) {
+    return assigned
+  }
+
+  const adminEmails = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean)
+  // An unconfirmed address proves nothing, so signing up with a listed email is not enough
+  if (user.email && user.email_confirmed_at && adminEmails.includes(user.email.toLowerCase())) {
+    return "admin"
+  }
+
+  const defaultRole = process.env.DEFAULT_USER_ROLE
+  if (adminEmails.length === 0 && !defaultRole && !warnedNoRoleConfig) {
+    warnedNoRoleConfig = true
+    console.error(
+      "[AUTH] Neither ADMIN_EMAILS nor DEFAULT_USER_ROLE is set: every user without an app_metadata role is a viewer " +
+        "and nobody can upload, change settings or run cleanup",
+    )
+  }
+  return isRole(defaultRole) ? defaultRole : "viewer"
+}
+
+/**
+ * Requires an authenticated user whose role grants the permission
+ * Requests made with an API key also need a key scope that grants it
+ * Throws "Unauthorized" without a session and "Forbidden" when the role or key falls short
+ *
+ * Usage in API routes:
+ * ```
+ * try {
+ *   const user = await requirePermission("documents:write")
+ *   // ... authorized logic
+ * } catch (error) {
+ *   // "Unauthorized" -> 401, "Forbidden" -> 403
+ * }
+ * ```
+ */
+export async function requirePermission(permission: Permission) {
+  const user = await requireAuth()
+
+  if (!userHasPermission(user, permission)) {
+    throw new Error("Forbidden")
+  }
+
+  return user
+}
+
+/**
+ * Whether an authenticated user may use an optional, more privileged part of
+ * a route, e.g. the debug-only search options. Same rules as requirePermission.
+ */
+export function userHasPermission(user: AuthUser, permission: Permission): boolean {
+  if (!hasPermission(getUserRole(user), permission)) return false
+  return !user.apiKey || scopesAllow(user.apiKey.scopes, permission)
+}
@@ -0,0 +1,111 @@
+/**
+ * Purpose: Collection storage
+ * Logic:
+ * - A collection is a separate knowledge base (e.g. UE5.3 docs, UE5.4 docs, studio wiki)
+ * - Each collection maps to its own vector store namespace, so searches never mix them
+ * - The default collection uses the default namespace and always exists, which keeps
+ *   documents indexed before collections existed searchable
+ * Runtime context: Edge Function
+ * Services: Vercel KV
+ *
+ * Key layout:
+ * - collection:{id}     collection metadata
+ * - collections         sorted set of collection ids scored by creation time
+ */
+import { kv } from "@vercel/kv"
+import { DEFAULT_COLLECTION_ID, type Collection } from "./types"
+
+export { DEFAULT_COLLECTION_ID, type Collection }
+
+const DEFAULT_COLLECTION: Collection = {
+  id: DEFAULT_COLLECTION_ID,
+  name: "Default",
+  description: "Documents uploaded without a collection",
+  namespace: "",
+  createdAt: new Date(0).toISOString(),
+}
+
+const MAX_NAME_LENGTH = 60
+const MAX_ID_LENGTH = 48
+
+// "UE 5.4 Docs" -> "ue-5-4-docs"
+export function toCollectionId(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_ID_LENGTH)
+}
+
+export function validateCollectionInput(input: unknown): { name: string; description?: string } | { error: string } {
+  if (!input || typeof input !== "object") {
+    return { error: "Collection must be an object" }
+  }
+
+  const { name, description } = input as Record<string, unknown>
+
+  if (typeof name !== "string" || !name.trim()) {
+    return { error: "Collection name is required" }
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return { error: `Collection name must be at most ${MAX_NAME_LENGTH} characters` }
+  }
+  if (!toCollectionId(name)) {
+    return { error: "Collection name must contain letters or digits" }
+  }
+  if (description !== undefined && typeof description !== "string") {
+    return { error: "Description must be a string" }
+  }
+
+  return { name: name.trim(), description: description?.trim() || undefined }
+}
+
+export async function listCollections(): Promise<Collection[]> {
+  const ids = await kv.zrange<string[]>("collections", 0, -1)
+  const collections = ids.length > 0 ? await kv.mget<(Collection | null)[]>(...ids.map((id) => `collection:${id}`)) : []
+
+  return [DEFAULT_COLLECTION, ...collections.filter((collection): collection is Collection => !!collection)]
+}
+
+// Missing or empty ids resolve to the default collection; unknown ids to null
+export async function getCollection(collectionId?: string | null): Promise<Collection | null> {
+  if (!collectionId || collectionId === DEFAULT_COLLECTION_ID) {
+    return DEFAULT_COLLECTION
+  }
+  return kv.get<Collection>(`collection:${collectionId}`)
+}
+
+// Returns null when a collection with the same id already exists
+export async function createCollection(input: { name: string; description?: string }): Promise<Collection | null> {
+  const id = toCollectionId(input.name)
+  if (id === DEFAULT_COLLECTION_ID) {
+    return null
+  }
+
+  const collection: Collection = {
+    id,
+    name: input.name,
+    description: input.description,
+    namespace: id,
+    createdAt: new Date().toISOString(),
+  }
+
+  // nx makes the existence check and the write one step, so concurrent creates cannot overwrite each other
+  if ((await kv.set(`collection:${id}`, collection, { nx: true })) === null) {
+    return null
+  }
+  await kv.zadd("collections", { score: Date.now(), member: id })
+
+  return collection
+}
+
+// Only removes the collection record; callers delete its documents first
+export async function deleteCollection(collectionId: string): Promise<boolean> {
+  if (collectionId === DEFAULT_COLLECTION_ID) {
+    return false
+  }
+
+  const deleted = await kv.del(`collection:${collectionId}`)
+  await kv.zrem("collections", collectionId)
+  return deleted > 0
+}
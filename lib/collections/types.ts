@@ -0,0 +1,18 @@
+/**
+ * Purpose: Collection types shared by the server and the dashboard
+ * Logic:
+ * - Kept free of server imports so client components can use them
+ * Runtime context: Edge Function or browser
+ */
+
+export interface Collection {
+  // URL-safe slug, also used as the namespace
+  id: string
+  name: string
+  description?: string
+  // Vector store namespace; "" is the default namespace
+  namespace: string
+  createdAt: string
+}
+
+export const DEFAULT_COLLECTION_ID = "default"
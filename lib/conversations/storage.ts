@@ -0,0 +1,144 @@
+/**
+ * Purpose: Conversation storage
+ * Logic:
+ * - Persists chat threads and their messages per user
+ * - Keeps the retrieval sources each assistant turn was grounded on
+ * - Lists threads most recently active first
+ * Runtime context: Edge Function
+ * Services: Vercel KV
+ *
+ * Key layout:
+ * - conversation:{id}              thread metadata
+ * - conversation:{id}:messages     list of stored messages in order
+ * - user:{userId}:conversations    sorted set of thread ids scored by last update
+ */
+import { kv } from "@vercel/kv"
+import type { SourceAnnotation } from "../ai/chat"
+
+export interface Conversation {
+  id: string
+  userId: string
+  title: string
+  createdAt: string
+  updatedAt: string
+  messageCount: number
+  // Chat model pinned for this thread ("provider:model"); the settings default applies when unset
+  model?: string
+}
+
+export interface StoredMessage {
+  id: string
+  role: "user" | "assistant"
+  content: string
+  createdAt: string
+  // Retrieval results the assistant answer was grounded on
+  sources?: SourceAnnotation[]
+}
+
+export interface ConversationWithMessages extends Conversation {
+  messages: StoredMessage[]
+}
+
+const MAX_TITLE_LENGTH = 80
+
+function userConversationsKey(userId: string) {
+  return `user:${userId}:conversations`
+}
+
+// Titles default to the opening question, trimmed to one line
+export function titleFromMessage(content: string): string {
+  const firstLine = content.trim().split("\n")[0] || "New conversation"
+  return firstLine.length > MAX_TITLE_LENGTH ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 3)}...` : firstLine
+}
+
+export async function listConversations(userId: string, limit = 50): Promise<Conversation[]> {
+  const ids = await kv.zrange<string[]>(userConversationsKey(userId), 0, limit - 1, { rev: true })
+  if (ids.length === 0) return []
+
+  const conversations = await kv.mget<(Conversation | null)[]>(...ids.map((id) => `conversation:${id}`))
+  return conversations.filter((conversation): conversation is Conversation => !!conversation)
+}
+
+// Returns null when the thread does not exist or belongs to another user
+export async function getConversation(userId: string, conversationId: string): Promise<Conversation | null> {
+  const conversation = await kv.get<Conversation>(`conversation:${conversationId}`)
+  if (!conversation || conversation.userId !== userId) {
+    return null
+  }
+  return conversation
+}
+
+export async function getConversationWithMessages(
+  userId: string,
+  conversationId: string,
+): Promise<ConversationWithMessages | null> {
+  const conversation = await getConversation(userId, conversationId)
+  if (!conversation) return null
+
+  const messages = await kv.lrange<StoredMessage>(`conversation:${conversationId}:messages`, 0, -1)
+  return { ...conversation, messages }
+}
+
+export async function createConversation(userId: string, title?: string): Promise<Conversation> {
+  const now = new Date().toISOString()
+  const conversation: Conversation = {
+    id: `conv-${crypto.randomUUID()}`,
+    userId,
+    title: title ? titleFromMessage(title) : "New conversation",
+    createdAt: now,
+    updatedAt: now,
+    messageCount: 0,
+  }
+
+  await kv.set(`conversation:${conversation.id}`, conversation)
+  await kv.zadd(userConversationsKey(userId), { score: Date.parse(now), member: conversation.id })
+
+  return conversation
+}
+
+export async function updateConversation(
+  userId: string,
+  conversationId: string,
+  changes: { title?: string; model?: string | null },
+): Promise<Conversation | null> {
+  const conversation = await getConversation(userId, conversationId)
+  if (!conversation) return null
+
+  const updated = { ...conversation }
+  if (changes.title !== undefined) updated.title = titleFromMessage(changes.title)
+  if (changes.model !== undefined) updated.model = changes.model || undefined
+
+  await kv.set(`conversation:${conversationId}`, updated)
+  return updated
+}
+
+export async function deleteConversation(userId: string, conversationId: string): Promise<boolean> {
+  const conversation = await getConversation(userId, conversationId)
+  if (!conversation) return false
+
+  await kv.del(`conversation:${conversationId}`, `conversation:${conversationId}:messages`)
+  await kv.zrem(userConversationsKey(userId), conversationId)
+  return true
+}
+
+export async function appendMessages(
+  userId: string,
+  conversationId: string,
+  messages: StoredMessage[],
+): Promise<Conversation | null> {
+  const conversation = await getConversation(userId, conversationId)
+  if (!conversation || messages.length === 0) return conversation
+
+  const now = new Date().toISOString()
+  const updated: Conversation = {
+    ...conversation,
+    updatedAt: now,
+    messageCount: conversation.messageCount + messages.length,
+  }
+
+  await kv.rpush(`conversation:${conversationId}:messages`, ...messages)
+  await kv.set(`conversation:${conversationId}`, updated)
+  await kv.zadd(userConversationsKey(userId), { score: Date.parse(now), member: conversationId })
+
+  return updated
+}
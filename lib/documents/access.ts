@@ -0,0 +1,136 @@
+/**
+ * Purpose: Document ownership and read access
+ * Logic:
+ * - The uploader owns a document (its userId); only the owner may delete, re-process or revise it
+ * - Private documents are readable by their owner only, shared ones by every signed-in user
+ * - Documents stored before ownership was enforced have no owner and stay readable and editable by everyone
+ * - Search is filtered by the ids of readable documents, so visibility changes apply without re-indexing;
+ *   vectors also record their owner in metadata
+ * - Readable ids are kept in KV sets per collection, updated on upload, visibility change and delete, so
+ *   search never scans document keys; the sets are built once from existing documents on first use
+ * Runtime context: Edge Function
+ * Services: Vercel KV
+ *
+ * Key layout:
+ * - documents:readable:{collectionId}:owner:{userId}   ids of the user's documents
+ * - documents:readable:{collectionId}:public           ids of shared and owner-less documents
+ * - documents:readable:indexed                         set once the sets hold every existing document
+ */
+import { kv } from "@vercel/kv"
+import { DEFAULT_COLLECTION_ID } from "../collections/types"
+import type { MetadataFilter } from "../pinecone/filters"
+
+export type DocumentVisibility = "private" | "shared"
+
+export const DOCUMENT_VISIBILITIES: DocumentVisibility[] = ["private", "shared"]
+
+export interface OwnedDocument {
+  id: string
+  userId?: string
+  visibility?: DocumentVisibility
+  collectionId?: string
+}
+
+const ACCESS_INDEXED_KEY = "documents:readable:indexed"
+// Document records read per request while building the sets
+const INDEX_BATCH_SIZE = 100
+
+function ownerSetKey(collectionId: string, userId: string) {
+  return `documents:readable:${collectionId}:owner:${userId}`
+}
+
+function publicSetKey(collectionId: string) {
+  return `documents:readable:${collectionId}:public`
+}
+
+export function canReadDocument(document: OwnedDocument, userId: string): boolean {
+  return !document.userId || document.userId === userId || document.visibility === "shared"
+}
+
+export function canModifyDocument(document: OwnedDocument, userId: string): boolean {
+  return !document.userId || document.userId === userId
+}
+
+/**
+ * Load a document on behalf of a user. Other users' private documents are
+ * reported as missing rather than forbidden, so their ids are not revealed.
+ */
+export async function authorizeDocument<T extends OwnedDocument = OwnedDocument>(
+  documentId: string,
+  userId: string,
+  access: "read" | "modify",
+): Promise<{ document?: T; error?: { status: 403 | 404; message: string } }> {
+  const document = await kv.get<T>(`document:${documentId}`)
+  if (!document || !canReadDocument(document, userId)) {
+    return { error: { status: 404, message: "Document not found" } }
+  }
+  if (access === "modify" && !canModifyDocument(document, userId)) {
+    return { error: { status: 403, message: "Only the document's owner can change it" } }
+  }
+  return { document }
+}
+
+// Record a document in the readable-id sets; call after storing it or changing its visibility
+export async function indexDocumentAccess(document: OwnedDocument): Promise<void> {
+  const collectionId = document.collectionId || DEFAULT_COLLECTION_ID
+
+  if (document.userId) {
+    await kv.sadd(ownerSetKey(collectionId, document.userId), document.id)
+  }
+  if (!document.userId || document.visibility === "shared") {
+    await kv.sadd(publicSetKey(collectionId), document.id)
+  } else {
+    await kv.srem(publicSetKey(collectionId), document.id)
+  }
+}
+
+// Remove a document from the readable-id sets, e.g. when it is deleted
+export async function unindexDocumentAccess(document: OwnedDocument): Promise<void> {
+  const collectionId = document.collectionId || DEFAULT_COLLECTION_ID
+
+  if (document.userId) {
+    await kv.srem(ownerSetKey(collectionId, document.userId), document.id)
+  }
+  await kv.srem(publicSetKey(collectionId), document.id)
+}
+
+// Builds the sets from the documents stored before they existed; runs once
+async function ensureAccessIndex(): Promise<void> {
+  if (await kv.get(ACCESS_INDEXED_KEY)) return
+
+  const keys = (await kv.keys("document:*")).filter((key) => key.split(":").length === 2)
+  for (let i = 0; i < keys.length; i += INDEX_BATCH_SIZE) {
+    const documents = await kv.mget<(OwnedDocument | null)[]>(...keys.slice(i, i + INDEX_BATCH_SIZE))
+    for (const document of documents) {
+      if (document?.id) await indexDocumentAccess(document)
+    }
+  }
+
+  await kv.set(ACCESS_INDEXED_KEY, new Date().toISOString())
+  console.log(`[ACCESS] Indexed read access for ${keys.length} documents`)
+}
+
+// Ids of the documents in a collection a user can read. KV errors propagate to the caller.
+export async function getReadableDocumentIds(userId: string, collectionId: string): Promise<string[]> {
+  await ensureAccessIndex()
+  return kv.sunion(ownerSetKey(collectionId, userId), publicSetKey(collectionId)) as Promise<string[]>
+}
+
+export function validateVisibility(input: unknown): { visibility?: DocumentVisibility; error?: string } {
+  if (input === undefined || input === null || input === "") return {}
+  if (typeof input !== "string" || !DOCUMENT_VISIBILITIES.includes(input as DocumentVisibility)) {
+    return { error: `Visibility must be one of: ${DOCUMENT_VISIBILITIES.join(", ")}` }
+  }
+  return { visibility: input as DocumentVisibility }
+}
+
+/**
+ * Restrict a search filter to the given readable documents. Returns null when
+ * nothing is readable, in which case the caller should skip the search.
+ */
+export function withReadAccess(filter: MetadataFilter | undefined, readableDocumentIds: string[]): MetadataFilter | null {
+  if (readableDocumentIds.length === 0) return null
+
+  const access: MetadataFilter = { documentId: { $in: readableDocumentIds } }
+  return filter ? { $and: [access, filter] } : access
+}
@@ -4,8 +4,13 @@
  * - Splits documents into semantic chunks
  * - Handles different document types
  * - Adds metadata to chunks
+ * - Gives indexed chunks content-hash ids, so unchanged chunks keep their id across revisions
  * Runtime context: Edge Function
  */
+import { detectCodeLanguage, fenceCode, splitCodeAtBoundaries, splitFencedSegments } from "./code"
+import { parseHtmlDocument } from "./html"
+import { countTokens, decodeTokens, encodeTokens } from "./tokenizer"
+
 export interface Chunk {
   id: string
   text: string
@@ -16,15 +21,40 @@ export interface Chunk {
     chunkIndex: number
     timestamp: string
     heading?: string
+    // Breadcrumb of ancestor headings, e.g. "Lumen > Hardware Ray Tracing > Overview"
+    headingPath?: string
+    headingLevel: number
+    page?: number
+    tokenCount: number
+    // Source language of code files or of the fenced code blocks in the chunk
+    language?: string
+    // SHA-256 prefix of the chunk's text, heading path and page; set by assignContentIds
+    contentHash?: string
   }
 }
 
+// Form feed separates pages in extracted PDF text
+export const PAGE_BREAK = "\f"
+
 export interface ChunkingOptions {
   chunkSize: {
     text: number
     code: number
   }
   overlap?: number
+  // Treat PAGE_BREAK lines as page boundaries and record page numbers
+  paginated?: boolean
+  // Parse content as HTML and section it by the DOM heading hierarchy
+  html?: boolean
+  // Unit for chunkSize and overlap: model tokens or raw characters
+  unit?: "tokens" | "characters"
+  // Keep fenced code blocks intact and split source files at declaration boundaries
+  preserveCode?: boolean
+}
+
+interface ChunkPiece {
+  text: string
+  language?: string
 }
 
 export function chunkDocument(
@@ -35,115 +65,433 @@ export function chunkDocument(
   options: ChunkingOptions,
 ): Chunk[] {
   const chunks: Chunk[] = []
-  const { chunkSize, overlap = 100 } = options
+  const {
+    chunkSize,
+    overlap = 100,
+    paginated = false,
+    html = false,
+    unit = "characters",
+    preserveCode = false,
+  } = options
 
   // Determine if content is code-heavy
-  const isCode =
-    type.includes("code") || filename.endsWith(".js") || filename.endsWith(".ts") || filename.endsWith(".py")
+  const language = detectCodeLanguage(filename)
+  const isCode = type.includes("code") || !!language
 
   // Choose appropriate chunk size
   const targetSize = isCode ? chunkSize.code : chunkSize.text
 
-  // Split content into sections based on headings
-  const sections = splitIntoSections(content)
+  const measure = unit === "tokens" ? countTokens : (text: string) => text.length
+  const split = (text: string, size: number) =>
+    unit === "tokens" ? splitByTokens(text, size, overlap) : splitByCharacters(text, size, overlap)
+
+  // Source files are one section; headings only exist in prose documents
+  const sections: Section[] =
+    preserveCode && language
+      ? [{ level: 0, path: [], text: content }]
+      : html
+        ? splitHtmlIntoSections(content)
+        : splitIntoSections(content, paginated)
 
   let chunkIndex = 0
 
   for (const section of sections) {
-    const { heading, text } = section
+    const { heading, level, page } = section
+    const headingPath = section.path.length > 0 ? section.path.join(HEADING_PATH_SEPARATOR) : undefined
+
+    let pieces: ChunkPiece[]
+    if (preserveCode && language) {
+      pieces = splitCodeAtBoundaries(section.text, language, chunkSize.code, measure)
+        .filter((text) => text.trim())
+        .map((text) => ({ text, language }))
+    } else if (preserveCode) {
+      pieces = splitPreservingCode(section.text, chunkSize, split, measure)
+    } else {
+      pieces = split(section.text, targetSize).map((text) => ({ text }))
+    }
 
-    // If section is small enough, use it as a chunk
-    if (text.length <= targetSize) {
+    for (const { text, language: pieceLanguage } of pieces) {
       chunks.push({
         id: `${documentId}-chunk-${chunkIndex}`,
         text,
         metadata: {
           source: filename,
-          section: heading,
+          section: headingPath,
           documentId,
           chunkIndex,
           timestamp: new Date().toISOString(),
           heading,
+          headingPath,
+          headingLevel: level,
+          page,
+          tokenCount: countTokens(text),
+          language: pieceLanguage,
         },
       })
       chunkIndex++
-      continue
     }
+  }
 
-    // Otherwise, split section into chunks
-    let startIndex = 0
+  return chunks
+}
 
-    while (startIndex < text.length) {
-      const endIndex = Math.min(startIndex + targetSize, text.length)
+// Hex characters of the SHA-256 digest kept in chunk ids
+const CONTENT_HASH_LENGTH = 16
 
-      // Try to find a good break point (sentence or paragraph)
-      let breakPoint = endIndex
-      if (endIndex < text.length) {
-        const searchEndIndex = Math.max(endIndex - 100, startIndex)
-        const lastPeriod = text.lastIndexOf(".", endIndex)
-        const lastNewline = text.lastIndexOf("\n", endIndex)
+async function hashChunkContent(chunk: Chunk): Promise<string> {
+  const { headingPath = "", page = "" } = chunk.metadata
+  const data = new TextEncoder().encode(`${headingPath}\n${page}\n${chunk.text}`)
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data))
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .slice(0, CONTENT_HASH_LENGTH)
+}
 
-        if (lastPeriod > searchEndIndex) {
-          breakPoint = lastPeriod + 1
-        } else if (lastNewline > searchEndIndex) {
-          breakPoint = lastNewline + 1
-        }
+/**
+ * Replace positional chunk ids with ids derived from chunk content, so an edit
+ * elsewhere in the document does not change them. Repeated identical chunks
+ * get a numeric suffix in document order.
+ */
+export async function assignContentIds(chunks: Chunk[]): Promise<Chunk[]> {
+  const hashes = await Promise.all(chunks.map(hashChunkContent))
+  const seen = new Map<string, number>()
+
+  return chunks.map((chunk, i) => {
+    const hash = hashes[i]
+    const occurrence = (seen.get(hash) || 0) + 1
+    seen.set(hash, occurrence)
+    const suffix = occurrence > 1 ? `-${occurrence}` : ""
+
+    return {
+      ...chunk,
+      id: `${chunk.metadata.documentId}-${hash}${suffix}`,
+      metadata: { ...chunk.metadata, contentHash: hash },
+    }
+  })
+}
+
+function splitByCharacters(text: string, targetSize: number, overlap: number): string[] {
+  // If section is small enough, use it as a chunk
+  if (text.length <= targetSize) {
+    return [text]
+  }
+
+  // Otherwise, split section into chunks
+  const pieces: string[] = []
+  let startIndex = 0
+
+  while (startIndex < text.length) {
+    const endIndex = Math.min(startIndex + targetSize, text.length)
+
+    // Try to find a good break point (sentence or paragraph)
+    let breakPoint = endIndex
+    if (endIndex < text.length) {
+      const searchEndIndex = Math.max(endIndex - 100, startIndex)
+      const lastPeriod = lastSentenceEnd(text, endIndex)
+      const lastNewline = text.lastIndexOf("\n", endIndex)
+
+      if (lastPeriod > searchEndIndex) {
+        breakPoint = lastPeriod + 1
+      } else if (lastNewline > searchEndIndex) {
+        breakPoint = lastNewline + 1
       }
+    }
+
+    const chunkText = text.substring(startIndex, breakPoint).trim()
 
-      const chunkText = text.substring(startIndex, breakPoint).trim()
-
-      if (chunkText) {
-        chunks.push({
-          id: `${documentId}-chunk-${chunkIndex}`,
-          text: chunkText,
-          metadata: {
-            source: filename,
-            section: heading,
-            documentId,
-            chunkIndex,
-            timestamp: new Date().toISOString(),
-            heading,
-          },
-        })
-        chunkIndex++
+    if (chunkText) {
+      pieces.push(chunkText)
+    }
+
+    // Move start index for next chunk, accounting for overlap
+    startIndex = breakPoint - overlap
+    if (startIndex < 0) startIndex = breakPoint
+  }
+
+  return pieces
+}
+
+// Last period followed by whitespace, so "FVector::ZeroVector.X" is not treated as a sentence end
+function lastSentenceEnd(text: string, endIndex: number): number {
+  for (let i = Math.min(endIndex, text.length - 1); i >= 0; i--) {
+    if (text[i] === "." && /\s/.test(text[i + 1] ?? "")) {
+      return i
+    }
+  }
+  return -1
+}
+
+interface CodePiece extends ChunkPiece {
+  code: boolean
+  // Index of the last fenced/prose segment the piece covers
+  segment: number
+}
+
+/**
+ * Splits prose normally but never cuts inside a fenced code block. Oversized
+ * blocks are split at declaration boundaries and each part is re-fenced, then
+ * code is merged with neighbouring prose while it fits.
+ */
+function splitPreservingCode(
+  text: string,
+  chunkSize: ChunkingOptions["chunkSize"],
+  split: (text: string, size: number) => string[],
+  measure: (text: string) => number,
+): ChunkPiece[] {
+  const pieces: CodePiece[] = []
+
+  splitFencedSegments(text).forEach((segment, index) => {
+    if (segment.type === "prose") {
+      const prose = split(segment.text, chunkSize.text)
+      pieces.push(...prose.map((piece) => ({ text: piece, code: false, segment: index })))
+      return
+    }
+
+    const fenced = fenceCode(segment.text, segment.language)
+    if (measure(fenced) <= chunkSize.code) {
+      pieces.push({ text: fenced, language: segment.language, code: true, segment: index })
+      return
+    }
+
+    const fenceSize = measure(fenceCode("", segment.language))
+    for (const part of splitCodeAtBoundaries(segment.text, segment.language, chunkSize.code - fenceSize, measure)) {
+      const fencedPart = fenceCode(part, segment.language)
+      pieces.push({ text: fencedPart, language: segment.language, code: true, segment: index })
+    }
+  })
+
+  const merged: CodePiece[] = []
+  for (const piece of pieces) {
+    const previous = merged[merged.length - 1]
+
+    // Pieces of the same segment are already sized (and overlapped) by their splitter
+    if (previous && previous.segment !== piece.segment && (previous.code || piece.code)) {
+      const candidate = `${previous.text}\n\n${piece.text}`
+      if (measure(candidate) <= chunkSize.code) {
+        previous.text = candidate
+        previous.language = previous.language ?? piece.language
+        previous.code = true
+        previous.segment = piece.segment
+        continue
       }
+    }
+
+    merged.push({ ...piece })
+  }
+
+  return merged.map(({ text, language }) => ({ text, language }))
+}
+
+interface TextUnit {
+  text: string
+  tokens: number
+  // Separator placed before this unit when joined to the previous one
+  joiner: string
+}
+
+// Packs paragraphs, then sentences, then raw token windows into chunks of at most maxTokens
+function splitByTokens(text: string, maxTokens: number, overlapTokens: number): string[] {
+  const trimmed = text.trim()
+  if (!trimmed) return []
+
+  if (countTokens(trimmed) <= maxTokens) {
+    return [trimmed]
+  }
 
-      // Move start index for next chunk, accounting for overlap
-      startIndex = breakPoint - overlap
-      if (startIndex < 0) startIndex = breakPoint
+  const units = toTextUnits(trimmed, maxTokens)
+  const pieces: string[] = []
+  let current: TextUnit[] = []
+  let currentTokens = 0
+
+  for (const unit of units) {
+    if (current.length > 0 && currentTokens + unit.tokens > maxTokens) {
+      pieces.push(joinUnits(current))
+
+      // Carry trailing units into the next chunk as overlap
+      const carried: TextUnit[] = []
+      let carriedTokens = 0
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (carriedTokens + current[i].tokens > overlapTokens) break
+        carried.unshift(current[i])
+        carriedTokens += current[i].tokens
+      }
+
+      // Drop overlap that would not leave room for the next unit
+      while (carried.length > 0 && carriedTokens + unit.tokens > maxTokens) {
+        carriedTokens -= carried.shift()!.tokens
+      }
+
+      current = carried
+      currentTokens = carriedTokens
     }
+
+    current.push(unit)
+    currentTokens += unit.tokens
   }
 
-  return chunks
+  if (current.length > 0) {
+    pieces.push(joinUnits(current))
+  }
+
+  return pieces
+}
+
+function toTextUnits(text: string, maxTokens: number): TextUnit[] {
+  const units: TextUnit[] = []
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const trimmedParagraph = paragraph.trim()
+    if (!trimmedParagraph) continue
+
+    const paragraphTokens = countTokens(trimmedParagraph)
+    if (paragraphTokens <= maxTokens) {
+      units.push({ text: trimmedParagraph, tokens: paragraphTokens, joiner: "\n\n" })
+      continue
+    }
+
+    // Sentence boundaries need trailing whitespace so "FVector::ZeroVector.X" stays intact
+    const sentences = trimmedParagraph.split(/(?<=[.!?])\s+/)
+    sentences.forEach((sentence, index) => {
+      const joiner = index === 0 ? "\n\n" : " "
+      const sentenceTokens = countTokens(sentence)
+
+      if (sentenceTokens <= maxTokens) {
+        units.push({ text: sentence, tokens: sentenceTokens, joiner })
+        return
+      }
+
+      // Fall back to fixed token windows for very long runs without punctuation
+      toTokenWindows(sentence, maxTokens).forEach((window, windowIndex) => {
+        units.push({ ...window, joiner: windowIndex === 0 ? joiner : "" })
+      })
+    })
+  }
+
+  return units
+}
+
+/**
+ * Split text into windows of at most maxTokens. A multi-byte character can be
+ * encoded across several tokens, so each window ends at a boundary that decodes
+ * back to the original text rather than to U+FFFD replacement characters.
+ */
+function toTokenWindows(text: string, maxTokens: number): Array<{ text: string; tokens: number }> {
+  const tokens = encodeTokens(text)
+  const windows: Array<{ text: string; tokens: number }> = []
+  let start = 0
+  let offset = 0
+
+  while (start < tokens.length) {
+    const decodesCleanly = (end: number) => text.startsWith(decodeTokens(tokens.slice(start, end)), offset)
+
+    let end = Math.min(start + maxTokens, tokens.length)
+    while (end > start + 1 && !decodesCleanly(end)) end--
+    // No clean boundary inside the window: extend it to the end of the character
+    while (end < tokens.length && !decodesCleanly(end)) end++
+
+    const windowText = decodeTokens(tokens.slice(start, end))
+    windows.push({ text: windowText, tokens: end - start })
+    offset += windowText.length
+    start = end
+  }
+
+  return windows
+}
+
+function joinUnits(units: TextUnit[]): string {
+  return units
+    .map((unit, index) => (index === 0 ? unit.text : unit.joiner + unit.text))
+    .join("")
+    .trim()
 }
 
 interface Section {
   heading?: string
+  // Heading depth (1-6), 0 for text before the first heading
+  level: number
+  // Heading hierarchy from the top-level chapter down to this section
+  path: string[]
   text: string
+  page?: number
+}
+
+// Separator used when flattening heading paths into metadata strings
+export const HEADING_PATH_SEPARATOR = " > "
+
+function splitHtmlIntoSections(content: string): Section[] {
+  return parseHtmlDocument(content).sections.map((section) => ({
+    heading: section.heading,
+    level: section.level,
+    path: section.path,
+    text: section.text,
+  }))
 }
 
-function splitIntoSections(content: string): Section[] {
+function splitIntoSections(content: string, paginated = false): Section[] {
   const sections: Section[] = []
   const lines = content.split("\n")
 
-  let currentHeading: string | undefined
+  // Ancestor headings of the current section, outermost first
+  let headingStack: Array<{ level: number; heading: string }> = []
   let currentText: string[] = []
+  let currentPage = paginated ? 1 : undefined
+  // Opening marker of the fenced code block being read, if any
+  let fence: string | null = null
+
+  const pushSection = () => {
+    const current = headingStack[headingStack.length - 1]
+    sections.push({
+      heading: current?.heading,
+      level: current?.level ?? 0,
+      path: headingStack.map((entry) => entry.heading),
+      text: currentText.join("\n"),
+      page: currentPage,
+    })
+  }
 
   for (const line of lines) {
+    // Page breaks close the current section but keep its headings for the next page
+    if (paginated && line.includes(PAGE_BREAK) && !line.trim()) {
+      if (currentText.some((text) => text.trim())) {
+        pushSection()
+      }
+
+      currentText = []
+      currentPage = (currentPage ?? 1) + 1
+      continue
+    }
+
+    // Lines inside fenced code (e.g. `# comments` in Python or shell) are never headings
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/)
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null
+      }
+      currentText.push(line)
+      continue
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1]
+      currentText.push(line)
+      continue
+    }
+
     // Check if line is a heading (markdown or HTML)
-    const headingMatch = line.match(/^(#{1,6})\s+(.+)$/) || line.match(/<h[1-6][^>]*>(.+?)<\/h[1-6]>/)
+    const markdownMatch = line.match(/^(#{1,6})\s+(.+)$/)
+    const htmlMatch = markdownMatch ? null : line.match(/<h([1-6])[^>]*>(.+?)<\/h[1-6]>/)
+    const headingMatch = markdownMatch || htmlMatch
 
     if (headingMatch) {
       // Save previous section if it exists
       if (currentText.length > 0) {
-        sections.push({
-          heading: currentHeading,
-          text: currentText.join("\n"),
-        })
+        pushSection()
       }
 
-      // Start new section
-      currentHeading = headingMatch[2] || headingMatch[1]
+      // Start new section, dropping siblings and deeper headings from the path
+      const level = markdownMatch ? markdownMatch[1].length : Number(headingMatch[1])
+      const heading = headingMatch[2].replace(/\s+#+\s*$/, "").trim()
+      headingStack = headingStack.filter((entry) => entry.level < level)
+      headingStack.push({ level, heading })
       currentText = []
     } else {
       currentText.push(line)
@@ -152,10 +500,7 @@ function splitIntoSections(content: string): Section[] {
 
   // Add the last section
   if (currentText.length > 0) {
-    sections.push({
-      heading: currentHeading,
-      text: currentText.join("\n"),
-    })
+    pushSection()
   }
 
   return sections
@@ -0,0 +1,259 @@
+/**
+ * Purpose: Source code awareness for chunking
+ * Logic:
+ * - Maps file extensions and fence info strings to languages
+ * - Finds fenced code blocks inside prose documents
+ * - Splits oversized code at function, class and section boundaries
+ * Runtime context: Edge Function
+ */
+
+// Extensions accepted as code, including Unreal C++ and text exports of Blueprint assets
+export const CODE_EXTENSIONS: Record<string, string> = {
+  ".h": "cpp",
+  ".hpp": "cpp",
+  ".inl": "cpp",
+  ".cpp": "cpp",
+  ".cc": "cpp",
+  ".cs": "csharp",
+  ".ini": "ini",
+  ".uasset": "blueprint",
+  ".t3d": "blueprint",
+  ".js": "javascript",
+  ".ts": "typescript",
+  ".py": "python",
+}
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  "c++": "cpp",
+  cxx: "cpp",
+  c: "cpp",
+  h: "cpp",
+  cs: "csharp",
+  "c#": "csharp",
+  js: "javascript",
+  ts: "typescript",
+  py: "python",
+  t3d: "blueprint",
+}
+
+export interface TextSegment {
+  type: "prose" | "code"
+  text: string
+  language?: string
+}
+
+export function detectCodeLanguage(filename: string): string | undefined {
+  const name = filename.toLowerCase()
+  const extension = Object.keys(CODE_EXTENSIONS).find((ext) => name.endsWith(ext))
+  return extension ? CODE_EXTENSIONS[extension] : undefined
+}
+
+export function normalizeLanguage(info: string): string | undefined {
+  const language = info.trim().split(/\s+/)[0]?.toLowerCase()
+  if (!language) return undefined
+  return LANGUAGE_ALIASES[language] || language
+}
+
+export function fenceCode(code: string, language?: string): string {
+  return `\`\`\`${language || ""}\n${code}\n\`\`\``
+}
+
+// Splits text into prose and fenced code segments; unterminated fences run to the end
+export function splitFencedSegments(text: string): TextSegment[] {
+  const segments: TextSegment[] = []
+  const lines = text.split("\n")
+  let prose: string[] = []
+  let code: string[] | null = null
+  let fence = ""
+  let language: string | undefined
+
+  const flushProse = () => {
+    const proseText = prose.join("\n")
+    if (proseText.trim()) {
+      segments.push({ type: "prose", text: proseText })
+    }
+    prose = []
+  }
+
+  for (const line of lines) {
+    if (code) {
+      if (line.trim().startsWith(fence)) {
+        segments.push({ type: "code", text: code.join("\n"), language })
+        code = null
+      } else {
+        code.push(line)
+      }
+      continue
+    }
+
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})(.*)$/)
+    if (fenceMatch) {
+      flushProse()
+      fence = fenceMatch[1]
+      language = normalizeLanguage(fenceMatch[2])
+      code = []
+    } else {
+      prose.push(line)
+    }
+  }
+
+  if (code) {
+    segments.push({ type: "code", text: code.join("\n"), language })
+  }
+  flushProse()
+
+  return segments
+}
+
+// Unreal reflection macros and C# attributes belong to the declaration that follows them
+const DECLARATION_PREFIX = /^\s*(UCLASS|USTRUCT|UENUM|UINTERFACE|UFUNCTION|UPROPERTY|UDELEGATE|GENERATED_BODY|\[[A-Za-z])/
+const COMMENT_LINE = /^\s*(\/\/|\/\*|\*|\*\/)/
+
+// Deepest scope searched for boundaries before falling back to line packing
+const MAX_SPLIT_DEPTH = 2
+
+/**
+ * Splits code into pieces no larger than maxSize, preferring top-level boundaries
+ * (functions, UCLASS/USTRUCT declarations, ini sections, Blueprint objects) and
+ * descending into nested scopes only when a single declaration is too large.
+ */
+export function splitCodeAtBoundaries(
+  code: string,
+  language: string | undefined,
+  maxSize: number,
+  measure: (text: string) => number,
+): string[] {
+  if (measure(code) <= maxSize) {
+    return [code]
+  }
+
+  const lines = code.split("\n")
+  return splitLines(lines, lineDepths(lines, language), language, maxSize, measure, 0)
+}
+
+function splitLines(
+  lines: string[],
+  depths: number[],
+  language: string | undefined,
+  maxSize: number,
+  measure: (text: string) => number,
+  depth: number,
+): string[] {
+  const boundaries = findBoundaries(lines, depths, language, depth)
+
+  // No usable boundaries at this depth - look one scope deeper, then pack individual lines
+  if (boundaries.length <= 1) {
+    return depth < MAX_SPLIT_DEPTH && language !== "ini"
+      ? splitLines(lines, depths, language, maxSize, measure, depth + 1)
+      : packBlocks(lines, maxSize, measure)
+  }
+
+  const blocks: string[] = []
+  for (let i = 0; i < boundaries.length; i++) {
+    const end = boundaries[i + 1] ?? lines.length
+    const blockLines = lines.slice(boundaries[i], end)
+    const block = blockLines.join("\n")
+
+    if (measure(block) > maxSize) {
+      blocks.push(
+        ...splitLines(blockLines, depths.slice(boundaries[i], end), language, maxSize, measure, depth + 1),
+      )
+    } else {
+      blocks.push(block)
+    }
+  }
+
+  return packBlocks(blocks, maxSize, measure)
+}
+
+// Greedily merges consecutive blocks while they fit
+function packBlocks(blocks: string[], maxSize: number, measure: (text: string) => number): string[] {
+  const pieces: string[] = []
+  let current = ""
+
+  for (const block of blocks) {
+    const candidate = current ? `${current}\n${block}` : block
+
+    if (current && measure(candidate) > maxSize) {
+      pieces.push(current)
+      current = block
+    } else {
+      current = candidate
+    }
+  }
+
+  if (current.trim()) {
+    pieces.push(current)
+  }
+
+  return pieces.filter((piece) => piece.trim())
+}
+
+// Line indices where a new declaration starts at the given nesting depth
+function findBoundaries(
+  lines: string[],
+  depths: number[],
+  language: string | undefined,
+  targetDepth: number,
+): number[] {
+  if (language === "ini") {
+    return withStart(lines.flatMap((line, index) => (/^\s*\[[^\]]+\]\s*$/.test(line) ? [index] : [])))
+  }
+
+  const boundaries: number[] = []
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    if (depths[i] !== targetDepth || !line.trim()) continue
+
+    const previous = lines[i - 1]?.trim() ?? ""
+    const startsDeclaration =
+      DECLARATION_PREFIX.test(line) ||
+      (language === "blueprint" && /^\s*Begin\s+Object\b/.test(line)) ||
+      previous === "" ||
+      /^}\s*;?\s*$/.test(previous)
+
+    // Reflection macros and attributes stay attached to the following line
+    if (!startsDeclaration || DECLARATION_PREFIX.test(previous)) continue
+
+    // Keep leading comments with the declaration they document
+    let start = i
+    while (start > 0 && COMMENT_LINE.test(lines[start - 1]) && depths[start - 1] === targetDepth) {
+      start--
+    }
+    if (COMMENT_LINE.test(line) && start !== i) continue
+
+    boundaries.push(start)
+  }
+
+  return withStart(Array.from(new Set(boundaries)).sort((a, b) => a - b))
+}
+
+function withStart(boundaries: number[]): number[] {
+  return boundaries[0] === 0 ? boundaries : [0, ...boundaries]
+}
+
+// Nesting depth at the start of each line (braces, or Begin/End Object for Blueprint exports)
+function lineDepths(lines: string[], language: string | undefined): number[] {
+  const depths: number[] = []
+  let depth = 0
+
+  for (const line of lines) {
+    depths.push(depth)
+
+    if (language === "blueprint") {
+      if (/^\s*Begin\s+Object\b/.test(line)) depth++
+      if (/^\s*End\s+Object\b/.test(line)) depth = Math.max(0, depth - 1)
+      continue
+    }
+
+    // Ignore braces inside strings and line comments
+    const stripped = line.replace(/"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'/g, "").replace(/\/\/.*$/, "")
+    for (const char of stripped) {
+      if (char === "{") depth++
+      if (char === "}") depth = Math.max(0, depth - 1)
+    }
+  }
+
+  return depths
+}
@@ -0,0 +1,304 @@
+/**
+ * Purpose: HTML document parsing
+ * Logic:
+ * - Parses HTML into a DOM, picks the main content container and strips navigation, scripts and
+ *   other boilerplate inside it
+ * - Converts tables, lists and code blocks into readable text
+ * - Splits content into sections following the heading hierarchy
+ * Runtime context: Edge Function
+ */
+import { parse, HTMLElement, NodeType, type Node } from "node-html-parser"
+
+export interface HtmlSection {
+  heading?: string
+  level: number
+  // Headings from the top-level chapter down to this section
+  path: string[]
+  text: string
+}
+
+export interface HtmlDocument {
+  title?: string
+  sections: HtmlSection[]
+}
+
+// Elements that never contain documentation content
+const BOILERPLATE_SELECTORS = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "iframe",
+  "nav",
+  "aside",
+  "form",
+  "button",
+  "[role=navigation]",
+  "[role=banner]",
+  "[role=contentinfo]",
+  "[role=search]",
+  "[aria-hidden=true]",
+]
+
+// Whole class names or ids used by doc exports for page chrome. Partial matches are not enough:
+// layout wrappers such as "has-sidebar" or "layout-with-toc" often hold the entire article
+const BOILERPLATE_PATTERN =
+  /^(breadcrumbs?|sidebar|toc|table-of-contents|cookie-(banner|consent|notice)|skip-link|feedback|pagination)$/i
+
+// Candidates for the main content container, most specific first
+const CONTENT_SELECTORS = ["main", "article", "[role=main]", "#maincol", "#content", "body"]
+
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "blockquote",
+  "dd",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "hr",
+  "main",
+  "p",
+  "section",
+  "summary",
+])
+
+const HEADING_PATTERN = /^h([1-6])$/
+
+export function isHtmlDocument(filename: string, type: string): boolean {
+  const name = filename.toLowerCase()
+  return type === "text/html" || name.endsWith(".html") || name.endsWith(".htm")
+}
+
+export function parseHtmlDocument(html: string): HtmlDocument {
+  const root = parse(html, {
+    comment: false,
+    blockTextElements: { script: true, style: true, noscript: true },
+  })
+
+  const title = cleanHeading(root.querySelector("title")?.text || root.querySelector("h1")?.text || "") || undefined
+
+  // Choose the container first, so chrome-like class names on its ancestors cannot remove it
+  const content = CONTENT_SELECTORS.map((selector) => root.querySelector(selector)).find(Boolean) || root
+  removeBoilerplate(content)
+
+  const builder = new SectionBuilder()
+  builder.visit(content)
+
+  return { title, sections: builder.finish() }
+}
+
+function removeBoilerplate(root: HTMLElement) {
+  for (const selector of BOILERPLATE_SELECTORS) {
+    root.querySelectorAll(selector).forEach((element) => element.remove())
+  }
+
+  // Page-level headers and footers are chrome; inside an article they usually hold the title
+  root.querySelectorAll("header, footer").forEach((element) => {
+    if (!element.closest("article, main")) {
+      element.remove()
+    }
+  })
+
+  root.querySelectorAll("[class], [id]").forEach((element) => {
+    const tokens = [...(element.getAttribute("class") || "").split(/\s+/), element.getAttribute("id") || ""]
+    if (tokens.some((token) => BOILERPLATE_PATTERN.test(token))) {
+      element.remove()
+    }
+  })
+}
+
+// Walks the DOM in document order and groups rendered blocks under their headings
+class SectionBuilder {
+  private sections: HtmlSection[] = []
+  private stack: Array<{ level: number; heading: string }> = []
+  private blocks: string[] = []
+  private inline: string[] = []
+
+  visit(node: Node) {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+      this.inline.push(collapseWhitespace(node.text))
+      return
+    }
+
+    if (!(node instanceof HTMLElement)) return
+
+    const tag = node.tagName?.toLowerCase() || ""
+    const headingMatch = tag.match(HEADING_PATTERN)
+
+    if (headingMatch) {
+      this.startSection(Number(headingMatch[1]), cleanHeading(node.text))
+      return
+    }
+
+    switch (tag) {
+      case "pre":
+        this.pushBlock(renderCodeBlock(node))
+        return
+      case "table":
+        this.pushBlock(renderTable(node))
+        return
+      case "ul":
+      case "ol":
+        this.pushBlock(renderList(node, 0))
+        return
+      case "br":
+        this.inline.push("\n")
+        return
+      case "code":
+        this.inline.push(`\`${node.text.trim()}\``)
+        return
+      case "img":
+        return
+    }
+
+    if (BLOCK_TAGS.has(tag)) {
+      this.flushInline()
+      node.childNodes.forEach((child) => this.visit(child))
+      this.flushInline()
+      return
+    }
+
+    node.childNodes.forEach((child) => this.visit(child))
+  }
+
+  finish(): HtmlSection[] {
+    this.closeSection()
+    return this.sections
+  }
+
+  private startSection(level: number, heading: string) {
+    this.closeSection()
+
+    if (!heading) return
+
+    // Pop siblings and deeper headings so the stack holds only ancestors
+    while (this.stack.length > 0 && this.stack[this.stack.length - 1].level >= level) {
+      this.stack.pop()
+    }
+    this.stack.push({ level, heading })
+  }
+
+  private closeSection() {
+    this.flushInline()
+
+    const text = this.blocks.join("\n\n").trim()
+    this.blocks = []
+    if (!text) return
+
+    const current = this.stack[this.stack.length - 1]
+    this.sections.push({
+      heading: current?.heading,
+      level: current?.level ?? 0,
+      path: this.stack.map((entry) => entry.heading),
+      text,
+    })
+  }
+
+  private pushBlock(block: string) {
+    this.flushInline()
+    if (block.trim()) {
+      this.blocks.push(block)
+    }
+  }
+
+  private flushInline() {
+    const paragraph = this.inline
+      .join("")
+      .replace(/ *\n */g, "\n")
+      .replace(/ {2,}/g, " ")
+      .trim()
+    this.inline = []
+
+    if (paragraph) {
+      this.blocks.push(paragraph)
+    }
+  }
+}
+
+function renderCodeBlock(pre: HTMLElement): string {
+  const code = pre.querySelector("code")
+  const language = detectLanguage(code) || detectLanguage(pre) || ""
+  const text = (code || pre).text.replace(/^\n+|\s+$/g, "")
+
+  return `\`\`\`${language}\n${text}\n\`\`\``
+}
+
+function detectLanguage(element: HTMLElement | null): string | undefined {
+  if (!element) return undefined
+
+  const dataLanguage = element.getAttribute("data-lang") || element.getAttribute("data-language")
+  if (dataLanguage) return dataLanguage.toLowerCase()
+
+  const className = element.getAttribute("class") || ""
+  const match = className.match(/(?:^|\s)(?:language|lang)-([\w+#-]+)/)
+  return match ? match[1].toLowerCase() : undefined
+}
+
+// Tables become one line per row with cells separated by pipes
+function renderTable(table: HTMLElement): string {
+  const caption = table.querySelector("caption")
+  const rows = table
+    .querySelectorAll("tr")
+    .map((row) =>
+      row
+        .querySelectorAll("th, td")
+        .map((cell) => collapseWhitespace(cell.text).trim())
+        .join(" | "),
+    )
+    .filter((row) => row.replace(/[|\s]/g, ""))
+
+  const lines = rows.map((row) => `| ${row} |`)
+  if (caption) {
+    lines.unshift(collapseWhitespace(caption.text).trim())
+  }
+
+  return lines.join("\n")
+}
+
+function renderList(list: HTMLElement, depth: number): string {
+  const ordered = list.tagName.toLowerCase() === "ol"
+  const indent = "  ".repeat(depth)
+  const lines: string[] = []
+
+  list.childNodes
+    .filter((child): child is HTMLElement => child instanceof HTMLElement && child.tagName.toLowerCase() === "li")
+    .forEach((item, index) => {
+      const nested: string[] = []
+      const text = item.childNodes
+        .map((child) => {
+          if (child instanceof HTMLElement && ["ul", "ol"].includes(child.tagName.toLowerCase())) {
+            nested.push(renderList(child, depth + 1))
+            return ""
+          }
+          return child instanceof HTMLElement && child.tagName.toLowerCase() === "code"
+            ? `\`${child.text.trim()}\``
+            : collapseWhitespace(child.text)
+        })
+        .join("")
+        .trim()
+
+      const marker = ordered ? `${index + 1}.` : "-"
+      if (text) {
+        lines.push(`${indent}${marker} ${text}`)
+      }
+      lines.push(...nested.filter(Boolean))
+    })
+
+  return lines.join("\n")
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ")
+}
+
+// Strip permalink symbols that doc generators append to headings
+function cleanHeading(text: string): string {
+  return collapseWhitespace(text)
+    .replace(/[¶#§]+\s*$/, "")
+    .trim()
+}
@@ -0,0 +1,170 @@
+/**
+ * Purpose: Chunk manifests for incremental re-indexing
+ * Logic:
+ * - Records the content-hash chunk ids a document was last indexed with
+ * - Diffs a new revision's chunks against the manifest, so only new or edited chunks are embedded
+ *   and vectors of chunks that no longer exist are deleted
+ * - A new chunk in the same section as a vanished one counts as changed rather than added and removed
+ * - Chunk ids only cover content, so each entry also records a fingerprint of the metadata that can change
+ *   without it (position, filename, collection, owner, document version); unchanged chunks whose
+ *   fingerprint differs get their metadata refreshed without being re-embedded
+ * Runtime context: Edge Function
+ * Services: Vercel KV
+ */
+import { kv } from "@vercel/kv"
+import type { Chunk } from "./chunker"
+
+export interface ChunkManifest {
+  embeddingModel: string
+  embeddingDimensions: number
+  chunks: Array<{
+    id: string
+    // Heading path the chunk belongs to; "" before the first heading
+    section: string
+    // See chunkFingerprint; missing in manifests saved before fingerprints existed
+    fingerprint?: string
+  }>
+  updatedAt: string
+}
+
+export interface ChunkDiffSummary {
+  added: number
+  changed: number
+  removed: number
+  unchanged: number
+  // Unchanged chunks whose stored metadata was out of date
+  refreshed?: number
+}
+
+// Document-level values copied into every vector's metadata
+export interface ChunkContext {
+  collectionId: string
+  ownerId?: string
+  documentVersion?: string | null
+}
+
+export interface ChunkDiff {
+  // Chunks that need embeddings, in document order
+  toEmbed: Chunk[]
+  // Unchanged chunks whose vectors need current metadata, in document order
+  toRefresh: Chunk[]
+  // Vector ids that no longer belong to the document
+  staleIds: string[]
+  summary: ChunkDiffSummary
+}
+
+function manifestKey(documentId: string) {
+  return `document:${documentId}:manifest`
+}
+
+export async function getChunkManifest(documentId: string): Promise<ChunkManifest | null> {
+  return kv.get<ChunkManifest>(manifestKey(documentId))
+}
+
+export async function saveChunkManifest(documentId: string, manifest: ChunkManifest): Promise<void> {
+  await kv.set(manifestKey(documentId), manifest)
+}
+
+// Metadata stored on a chunk's vector that its content-hash id does not cover
+function chunkFingerprint(chunk: Chunk, context: ChunkContext): string {
+  return JSON.stringify([
+    chunk.metadata.chunkIndex,
+    chunk.metadata.source,
+    context.collectionId,
+    context.ownerId ?? null,
+    context.documentVersion ?? null,
+  ])
+}
+
+export function toChunkManifest(
+  chunks: Chunk[],
+  embeddingProvider: { model: string; dimensions: number },
+  context: ChunkContext,
+): ChunkManifest {
+  return {
+    embeddingModel: embeddingProvider.model,
+    embeddingDimensions: embeddingProvider.dimensions,
+    chunks: chunks.map((chunk) => ({
+      id: chunk.id,
+      section: chunk.metadata.headingPath || "",
+      fingerprint: chunkFingerprint(chunk, context),
+    })),
+    updatedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Compare a revision's chunks with the manifest of what is indexed. Without a
+ * manifest every chunk is new; after an embedding model change every chunk is
+ * re-embedded, since old and new vectors are not comparable.
+ */
+export function diffChunks(
+  previous: ChunkManifest | null,
+  chunks: Chunk[],
+  embeddingProvider: { model: string; dimensions: number },
+  context: ChunkContext,
+): ChunkDiff {
+  const previousChunks = previous?.chunks || []
+  const currentIds = new Set(chunks.map((chunk) => chunk.id))
+  const staleIds = previousChunks.filter((chunk) => !currentIds.has(chunk.id)).map((chunk) => chunk.id)
+
+  if (
+    previous &&
+    (previous.embeddingModel !== embeddingProvider.model || previous.embeddingDimensions !== embeddingProvider.dimensions)
+  ) {
+    return {
+      toEmbed: chunks,
+      toRefresh: [],
+      staleIds,
+      summary: {
+        added: chunks.filter((chunk) => !previousChunks.some((old) => old.id === chunk.id)).length,
+        changed: chunks.filter((chunk) => previousChunks.some((old) => old.id === chunk.id)).length,
+        removed: staleIds.length,
+        unchanged: 0,
+      },
+    }
+  }
+
+  const previousFingerprints = new Map(previousChunks.map((chunk) => [chunk.id, chunk.fingerprint]))
+  const toEmbed = chunks.filter((chunk) => !previousFingerprints.has(chunk.id))
+  const toRefresh = chunks.filter(
+    (chunk) =>
+      previousFingerprints.has(chunk.id) && previousFingerprints.get(chunk.id) !== chunkFingerprint(chunk, context),
+  )
+
+  // Pair new chunks with vanished ones section by section to tell edits from additions
+  const vanishedPerSection = new Map<string, number>()
+  for (const chunk of previousChunks) {
+    if (!currentIds.has(chunk.id)) {
+      vanishedPerSection.set(chunk.section, (vanishedPerSection.get(chunk.section) || 0) + 1)
+    }
+  }
+
+  let changed = 0
+  for (const chunk of toEmbed) {
+    const section = chunk.metadata.headingPath || ""
+    const vanished = vanishedPerSection.get(section) || 0
+    if (vanished > 0) {
+      vanishedPerSection.set(section, vanished - 1)
+      changed++
+    }
+  }
+
+  return {
+    toEmbed,
+    toRefresh,
+    staleIds,
+    summary: {
+      added: toEmbed.length - changed,
+      changed,
+      removed: staleIds.length - changed,
+      unchanged: chunks.length - toEmbed.length,
+      refreshed: toRefresh.length,
+    },
+  }
+}
+
+export function formatChunkDiff(summary: ChunkDiffSummary): string {
+  const refreshed = summary.refreshed ? ` (${summary.refreshed} with updated metadata)` : ""
+  return `${summary.added} added, ${summary.changed} changed, ${summary.removed} removed, ${summary.unchanged} unchanged${refreshed}`
+}
@@ -0,0 +1,65 @@
+/**
+ * Purpose: PDF text extraction
+ * Logic:
+ * - Extracts text page by page using the serverless PDF.js build (unpdf)
+ * - Normalizes whitespace while keeping line structure
+ * - Joins pages with page-break markers so the chunker can track page numbers
+ * Runtime context: Edge Function
+ */
+import { extractText, getDocumentProxy, getMeta } from "unpdf"
+import { PAGE_BREAK } from "./chunker"
+
+export interface PdfPage {
+  pageNumber: number
+  text: string
+}
+
+export interface PdfExtractionResult {
+  pages: PdfPage[]
+  totalPages: number
+  title?: string
+}
+
+// Collapse runs of spaces and blank lines without merging separate lines
+function normalizePageText(text: string): string {
+  return text
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/ ?\n ?/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+export async function extractPdfText(data: ArrayBuffer | Uint8Array): Promise<PdfExtractionResult> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const pdf = await getDocumentProxy(bytes)
+
+  try {
+    const { totalPages, text } = await extractText(pdf, { mergePages: false })
+
+    let title: string | undefined
+    try {
+      const meta = await getMeta(pdf)
+      title = typeof meta.info?.Title === "string" && meta.info.Title.trim() ? meta.info.Title.trim() : undefined
+    } catch {
+      // Metadata is optional - ignore malformed info dictionaries
+    }
+
+    const pages = text.map((pageText, index) => ({
+      pageNumber: index + 1,
+      text: normalizePageText(pageText),
+    }))
+
+    return { pages, totalPages, title }
+  } finally {
+    await pdf.loadingTask.destroy()
+  }
+}
+
+// Join extracted pages into a single document, one page-break marker between pages
+export function joinPdfPages(pages: PdfPage[]): string {
+  return pages.map((page) => page.text).join(`\n${PAGE_BREAK}\n`)
+}
+
+export function isPdfDocument(filename: string, type: string): boolean {
+  return type === "application/pdf" || filename.toLowerCase().endsWith(".pdf")
+}
@@ -1,8 +1,12 @@
-import { chunkDocument } from "./chunker"
-import { createEmbeddingBatch, EMBEDDING_DIMENSIONS, EMBEDDING_MODEL } from "../ai/embeddings"
+import { assignContentIds, chunkDocument, type Chunk } from "./chunker"
+import { detectCodeLanguage } from "./code"
+import { extractPdfText, isPdfDocument, joinPdfPages } from "./pdf"
+import { isHtmlDocument } from "./html"
+import type { EmbeddingProvider } from "../ai/embeddings"
 import { kv } from "@vercel/kv"
-import { createClient } from "../pinecone/client"
-import { fetchBlobContent, validateBlobExists } from "../utils/blob-fetch"
+import type { KeywordDocument } from "../pinecone/keyword-index"
+import { parseVersionCode } from "../pinecone/filters"
+import { fetchBlobBuffer, fetchBlobContent, validateBlobExists } from "../utils/blob-fetch"
 import type { PineconeVector } from "../pinecone/types"
 
 // Progress callback type
@@ -71,271 +75,142 @@ export class DocumentProcessor {
   }
 }
 
-// Process document with progress updates and blob validation
-export async function processDocumentWithProgress(
+// Chunk document using semantic splitting, with content-hash chunk ids
+export async function chunkForIndexing(
   documentId: string,
   content: string,
   filename: string,
   type: string,
-  onProgress: ProgressCallback,
-): Promise<{
-  chunks: Array<{
-    id: string
-    text: string
-    metadata: Record<string, any>
-  }>
-  vectors: PineconeVector[]
-}> {
-  const startTime = Date.now()
-
-  // Get settings from KV or use defaults aligned with project knowledge
-  const settings = (await kv.get("settings")) || {
-    chunkSize: {
-      text: 300, // 200-500 tokens recommended for text
-      code: 1000, // 750-1500 tokens recommended for code
-    },
-  }
-
-  // Update processing status and send progress update
-  await kv.set(`document:${documentId}:status`, "chunking", { ex: 3600 })
-  onProgress({
-    stage: "chunking",
-    percent: 15,
-    message: "Analyzing document structure and creating semantic chunks...",
-    details: {
-      documentId,
-      filename,
-      contentLength: content.length,
-      embeddingModel: EMBEDDING_MODEL,
-      embeddingDimensions: EMBEDDING_DIMENSIONS,
-    },
-  })
-
-  // Chunk document using semantic splitting
+  chunkSize: { text: number; code: number },
+): Promise<Chunk[]> {
   const chunks = chunkDocument(documentId, content, filename, type, {
-    chunkSize: settings.chunkSize,
-    overlap: type.includes("code") ? 200 : 100, // Larger overlap for code
+    chunkSize,
+    unit: "tokens", // chunkSize settings are expressed in model tokens
+    overlap: type.includes("code") || detectCodeLanguage(filename) ? 100 : 50, // Larger overlap for code (tokens)
+    paginated: isPdfDocument(filename, type), // Track page numbers for PDF citations
+    html: isHtmlDocument(filename, type), // Strip markup and section by heading hierarchy
+    preserveCode: true, // Never split fenced code blocks or source files mid-declaration
   })
+  return assignContentIds(chunks)
+}
 
-  // Update processing status and send progress update
-  await kv.set(`document:${documentId}:status`, "embedding", { ex: 3600 })
-  await kv.set(`document:${documentId}:chunks`, chunks.length, { ex: 3600 })
-  onProgress({
-    stage: "embedding",
-    percent: 30,
-    message: `Document chunked into ${chunks.length} semantic segments. Generating embeddings...`,
-    details: {
-      documentId,
-      chunkCount: chunks.length,
-      embeddingModel: EMBEDDING_MODEL,
-      embeddingDimensions: EMBEDDING_DIMENSIONS,
-    },
-  })
-
-  // Generate embeddings using text-embedding-3-large in batches
-  const texts = chunks.map((chunk) => chunk.text)
-  const batchSize = 20 // Optimized for Edge Runtime limits
-  const embeddings: number[][] = []
-  const totalBatches = Math.ceil(texts.length / batchSize)
-
-  for (let i = 0; i < texts.length; i += batchSize) {
-    const batch = texts.slice(i, i + batchSize)
-    const currentBatch = Math.floor(i / batchSize) + 1
-
-    // Generate embeddings for this batch
-    const batchEmbeddings = await createEmbeddingBatch(batch, batchSize)
-    embeddings.push(...batchEmbeddings)
-
-    // Validate embedding dimensions for this batch
-    for (const embedding of batchEmbeddings) {
-      if (embedding.length !== EMBEDDING_DIMENSIONS) {
-        throw new Error(
-          `Embedding dimension mismatch: expected ${EMBEDDING_DIMENSIONS}, got ${embedding.length}. Model: ${EMBEDDING_MODEL}`,
-        )
-      }
-    }
-
-    // Calculate and report progress (30% to 70% for embedding stage)
-    const embeddingProgress = 30 + Math.floor(((i + batch.length) / texts.length) * 40)
-    onProgress({
-      stage: "embedding",
-      percent: embeddingProgress,
-      message: `Generating embeddings: batch ${currentBatch}/${totalBatches} (${Math.min(
-        i + batch.length,
-        texts.length,
-      )}/${texts.length} chunks)`,
-      details: {
-        documentId,
-        processedChunks: Math.min(i + batch.length, texts.length),
-        totalChunks: texts.length,
-        currentBatch,
-        totalBatches,
-        embeddingModel: EMBEDDING_MODEL,
-        embeddingDimensions: EMBEDDING_DIMENSIONS,
-      },
-    })
-
-    // Rate limiting to avoid API limits
-    if (i + batchSize < texts.length) {
-      await new Promise((resolve) => setTimeout(resolve, 200))
-    }
-  }
-
-  // Create vectors with rich metadata
-  const vectors: PineconeVector[] = chunks.map((chunk, i) => ({
-    id: chunk.id, // Format: ${documentId}-chunk-${index}
+// Create vectors with rich metadata
+export function buildVectors(
+  chunks: Chunk[],
+  embeddings: number[][],
+  options: {
+    embeddingProvider: Pick<EmbeddingProvider, "model" | "dimensions">
+    collectionId: string
+    // Chunks that do not mention a version inherit the first one named in the document
+    documentVersion: string | null
+    // Uploader of the document; documents from before ownership have none
+    ownerId?: string
+  },
+): PineconeVector[] {
+  const { embeddingProvider, collectionId, documentVersion, ownerId } = options
+
+  return chunks.map((chunk, i) => ({
+    id: chunk.id, // Format: ${documentId}-${contentHash}
     values: embeddings[i],
     metadata: {
       ...chunk.metadata,
       text: chunk.text,
-      embeddingModel: EMBEDDING_MODEL,
-      embeddingDimensions: EMBEDDING_DIMENSIONS,
+      collection: collectionId,
+      ...(ownerId ? { ownerId } : {}),
+      embeddingModel: embeddingProvider.model,
+      embeddingDimensions: embeddingProvider.dimensions,
       processingTimestamp: new Date().toISOString(),
       // Extract technical terms for better search
       technicalTerms: extractTechnicalTerms(chunk.text),
       // Extract version information if present
       version: extractVersionInfo(chunk.text),
+      // Numeric form (major * 100 + minor) for version range filters
+      versionCode: parseVersionCode(extractVersionInfo(chunk.text) ?? documentVersion),
     },
   }))
+}
+
+// Keyword index entries for the keyword side of hybrid search
+export function toKeywordDocuments(vectors: PineconeVector[], documentId: string, namespace: string): KeywordDocument[] {
+  return vectors.map((vector) => ({
+    id: vector.id,
+    text: vector.metadata?.text || "",
+    metadata: { ...vector.metadata, documentId, namespace },
+  }))
+}
 
-  // Update processing status and send progress update
-  await kv.set(`document:${documentId}:status`, "storing", { ex: 3600 })
-  await kv.set(`document:${documentId}:vectors`, vectors.length, { ex: 3600 })
+// Fetch a document's text from Blob storage, extracting PDF pages when needed
+export async function loadDocumentContent(
+  documentId: string,
+  blobUrl: string,
+  type: string,
+  onProgress: ProgressCallback,
+): Promise<{ content: string; filename: string }> {
+  // Step 1: Validate blob exists
   onProgress({
-    stage: "storing",
-    percent: 70,
-    message: `Embeddings generated successfully. Storing ${vectors.length} vectors in Pinecone...`,
-    details: {
-      documentId,
-      vectorCount: vectors.length,
-      embeddingModel: EMBEDDING_MODEL,
-      embeddingDimensions: EMBEDDING_DIMENSIONS,
-    },
+    stage: "processing",
+    percent: 5,
+    message: "Validating document accessibility...",
   })
 
-  // Store vectors in Pinecone with batch processing
-  const pinecone = createClient()
-  const upsertBatchSize = 50 // Optimized for Edge Runtime limits
-  const totalUpsertBatches = Math.ceil(vectors.length / upsertBatchSize)
-
-  for (let i = 0; i < vectors.length; i += upsertBatchSize) {
-    const batch = vectors.slice(i, i + upsertBatchSize)
-    const currentUpsertBatch = Math.floor(i / upsertBatchSize) + 1
-
-    // Upsert batch with retry logic
-    await pinecone.upsert(batch)
-
-    // Calculate and report progress (70% to 95% for storing stage)
-    const storingProgress = 70 + Math.floor(((i + batch.length) / vectors.length) * 25)
-    onProgress({
-      stage: "storing",
-      percent: storingProgress,
-      message: `Storing vectors: batch ${currentUpsertBatch}/${totalUpsertBatches} (${Math.min(
-        i + batch.length,
-        vectors.length,
-      )}/${vectors.length} vectors)`,
-      details: {
-        documentId,
-        storedVectors: Math.min(i + batch.length, vectors.length),
-        totalVectors: vectors.length,
-        currentBatch: currentUpsertBatch,
-        totalBatches: totalUpsertBatches,
-      },
-    })
-
-    // Rate limiting to avoid Pinecone limits
-    if (i + upsertBatchSize < vectors.length) {
-      await new Promise((resolve) => setTimeout(resolve, 200))
-    }
+  const blobExists = await validateBlobExists(blobUrl)
+  if (!blobExists) {
+    throw new Error("Document not found in storage. It may have been deleted.")
   }
 
-  // Update final processing status
-  await kv.set(`document:${documentId}:status`, "completed", { ex: 86400 }) // 24 hour TTL
-
-  // Send final progress update
-  const processingTime = Date.now() - startTime
+  // Step 2: Fetch content using safe blob fetch
   onProgress({
-    stage: "completed",
-    percent: 100,
-    message: `Document processing completed successfully. ${chunks.length} chunks and ${vectors.length} vectors created.`,
-    details: {
-      documentId,
-      chunkCount: chunks.length,
-      vectorCount: vectors.length,
-      processingTime,
-      embeddingModel: EMBEDDING_MODEL,
-      embeddingDimensions: EMBEDDING_DIMENSIONS,
-      completedAt: new Date().toISOString(),
-    },
+    stage: "processing",
+    percent: 10,
+    message: "Fetching document content...",
   })
 
-  return { chunks, vectors }
-}
+  // Download URLs carry a query string (?download=1) that must not leak into the filename
+  const filename = new URL(blobUrl).pathname.split("/").pop() || "unknown"
+  let content: string
 
-// Enhanced process document function with blob validation
-export async function processDocumentFromBlob(
-  documentId: string,
-  blobUrl: string,
-  type: string,
-  onProgress: ProgressCallback,
-) {
-  const processor = new DocumentProcessor(documentId)
+  if (isPdfDocument(filename, type)) {
+    // PDFs are binary - extract text page by page instead of decoding as text
+    const buffer = await fetchBlobBuffer(blobUrl)
 
-  try {
-    await processor.setState("processing", 0)
-
-    // Step 1: Validate blob exists
     onProgress({
       stage: "processing",
-      percent: 5,
-      message: "Validating document accessibility...",
+      percent: 12,
+      message: "Extracting text from PDF pages...",
     })
 
-    const blobExists = await validateBlobExists(blobUrl)
-    if (!blobExists) {
-      throw new Error("Document not found in storage. It may have been deleted.")
+    const pdf = await extractPdfText(buffer)
+    const pagesWithText = pdf.pages.filter((page) => page.text.length > 0).length
+
+    if (pagesWithText === 0) {
+      throw new Error("PDF contains no extractable text. Scanned documents are not supported.")
     }
 
-    // Step 2: Fetch content using safe blob fetch
     onProgress({
       stage: "processing",
-      percent: 10,
-      message: "Fetching document content...",
+      percent: 14,
+      message: `Extracted text from ${pagesWithText}/${pdf.totalPages} PDF pages`,
+      details: {
+        documentId,
+        totalPages: pdf.totalPages,
+        pagesWithText,
+        title: pdf.title,
+      },
     })
 
-    const content = await fetchBlobContent(blobUrl)
+    content = joinPdfPages(pdf.pages)
+  } else {
+    content = await fetchBlobContent(blobUrl)
 
-    if (!content || content.length === 0) {
-      throw new Error("Document appears to be empty")
+    // Only T3D text exports of Blueprint assets can be indexed, not binary packages
+    if (detectCodeLanguage(filename) === "blueprint" && content.includes("\u0000")) {
+      throw new Error("Binary .uasset files are not supported. Export the Blueprint as text (T3D) and upload that.")
     }
-
-    // Step 3: Process with full pipeline
-    const filename = blobUrl.split("/").pop() || "unknown"
-    const result = await processDocumentWithProgress(documentId, content, filename, type, onProgress)
-
-    await processor.setState("completed", 100)
-    return { success: true, ...result }
-  } catch (error) {
-    await processor.setState("failed", 0)
-    throw error
   }
-}
 
-// Legacy function for backward compatibility
-export async function processDocument(documentId: string, url: string, type: string) {
-  const processor = new DocumentProcessor(documentId)
-
-  try {
-    await processor.setState("processing", 0)
-
-    // Use the new blob validation approach
-    const content = await fetchBlobContent(url)
-
-    // Simple processing for legacy compatibility
-    await processor.setState("completed", 100)
-    return { success: true }
-  } catch (error) {
-    await processor.setState("failed", 0)
-    throw error
+  if (!content || content.length === 0) {
+    throw new Error("Document appears to be empty")
   }
+
+  return { content, filename }
 }
@@ -0,0 +1,147 @@
+/**
+ * Purpose: Document revisions
+ * Logic:
+ * - A document keeps every uploaded file as a numbered revision; the document record mirrors the active one
+ * - Uploading a file with the same logical name into the same collection adds a revision instead of a new document;
+ *   names are tracked per owner, so a re-upload never revises another user's document
+ * - Only the active revision is indexed: activating a revision re-indexes the document, and the chunk
+ *   manifest diff swaps the previous revision's vectors out
+ * Runtime context: Edge Function
+ * Services: Vercel KV
+ *
+ * Key layout:
+ * - document:{id}:revisions              revisions, oldest first
+ * - documents:name:{collectionId}:{ownerId}:{name}  document id for an owner's logical name within a collection
+ */
+import { kv } from "@vercel/kv"
+
+export interface DocumentRevision {
+  revision: number
+  name: string
+  type: string
+  size: number
+  url: string
+  uploadedAt: string
+  uploadedBy?: string
+}
+
+interface RevisionedDocument {
+  id: string
+  name?: string
+  filename?: string
+  type?: string
+  size?: number
+  url?: string
+  uploadedAt?: string
+  userId?: string
+  collectionId?: string
+  activeRevision?: number
+}
+
+function revisionsKey(documentId: string) {
+  return `document:${documentId}:revisions`
+}
+
+// Logical name: case and separators do not make a different document
+export function toLogicalName(filename: string): string {
+  return filename
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, "-")
+}
+
+function nameKey(collectionId: string, ownerId: string, filename: string) {
+  return `documents:name:${collectionId}:${ownerId}:${toLogicalName(filename)}`
+}
+
+export async function getRevisions(documentId: string): Promise<DocumentRevision[]> {
+  const revisions = await kv.get<DocumentRevision[]>(revisionsKey(documentId))
+  if (revisions && revisions.length > 0) return revisions
+
+  // Documents uploaded before revisions existed have a single implicit revision
+  const document = await kv.get<RevisionedDocument>(`document:${documentId}`)
+  if (!document?.url) return []
+
+  return [
+    {
+      revision: 1,
+      name: document.name || document.filename || "Unnamed Document",
+      type: document.type || "text/plain",
+      size: document.size || 0,
+      url: document.url,
+      uploadedAt: document.uploadedAt || new Date().toISOString(),
+      uploadedBy: document.userId,
+    },
+  ]
+}
+
+// Find the document a file with this name belongs to, so a re-upload becomes a revision
+export async function findDocumentByName(collectionId: string, ownerId: string, filename: string): Promise<string | null> {
+  const documentId = await kv.get<string>(nameKey(collectionId, ownerId, filename))
+  if (!documentId) return null
+
+  // Drop index entries whose document was deleted
+  if (!(await kv.exists(`document:${documentId}`))) {
+    await kv.del(nameKey(collectionId, ownerId, filename))
+    return null
+  }
+  return documentId
+}
+
+export async function registerDocumentName(collectionId: string, ownerId: string, filename: string, documentId: string) {
+  await kv.set(nameKey(collectionId, ownerId, filename), documentId)
+}
+
+export async function unregisterDocumentName(collectionId: string, ownerId: string, filename: string, documentId: string) {
+  // Only remove the entry if it still points at this document
+  const key = nameKey(collectionId, ownerId, filename)
+  if ((await kv.get<string>(key)) === documentId) {
+    await kv.del(key)
+  }
+}
+
+export async function addRevision(
+  documentId: string,
+  revision: Omit<DocumentRevision, "revision">,
+): Promise<DocumentRevision> {
+  const revisions = await getRevisions(documentId)
+  const added = { ...revision, revision: (revisions[revisions.length - 1]?.revision || 0) + 1 }
+
+  await kv.set(revisionsKey(documentId), [...revisions, added])
+  return added
+}
+
+/**
+ * Point the document record at a revision. The caller re-indexes the document
+ * afterwards so search follows.
+ */
+export async function activateRevision(documentId: string, revisionNumber: number): Promise<DocumentRevision | null> {
+  const document = await kv.get<RevisionedDocument>(`document:${documentId}`)
+  if (!document) return null
+
+  const revisions = await getRevisions(documentId)
+  const revision = revisions.find((entry) => entry.revision === revisionNumber)
+  if (!revision) return null
+
+  // Persist the implicit first revision of older documents before switching away from it
+  await kv.set(revisionsKey(documentId), revisions)
+  await kv.set(`document:${documentId}`, {
+    ...document,
+    name: revision.name,
+    filename: revision.name,
+    type: revision.type,
+    size: revision.size,
+    url: revision.url,
+    activeRevision: revision.revision,
+    revisionCount: revisions.length,
+    status: "uploaded",
+  })
+
+  return revision
+}
+
+export async function deleteRevisions(documentId: string): Promise<DocumentRevision[]> {
+  const revisions = await getRevisions(documentId)
+  await kv.del(revisionsKey(documentId))
+  return revisions
+}
@@ -8,9 +8,48 @@
  */
 import { del } from "@vercel/blob"
 import { kv } from "@vercel/kv"
-import { createClient } from "../pinecone/client"
+import { createVectorStore, deleteDocumentVectors } from "../vector-store/client"
+import { DEFAULT_COLLECTION_ID, getCollection, listCollections } from "../collections/storage"
+import { createKeywordIndex } from "../pinecone/keyword-index"
+import type { ChunkDiffSummary } from "./manifest"
+import { deleteRevisions, unregisterDocumentName } from "./revisions"
+import {
+  canReadDocument,
+  getReadableDocumentIds,
+  unindexDocumentAccess,
+  type DocumentVisibility,
+} from "./access"
 import { testBlobAccess } from "../utils/blob-fetch"
 
+// Document records read per KV request when listing
+const READ_BATCH_SIZE = 100
+
+// Fills fields that older records store under other names or not at all
+function normalizeDocument(doc: Record<string, any>) {
+  return {
+    id: doc.id,
+    name: doc.name || doc.filename || "Unnamed Document",
+    filename: doc.filename || doc.name || "Unnamed Document",
+    type: doc.type || doc.fileType || "unknown",
+    fileType: doc.fileType || doc.type || "unknown",
+    size: doc.size || doc.fileSize || 0,
+    fileSize: doc.fileSize || doc.size || 0,
+    url: doc.url || "",
+    uploadedAt: doc.uploadedAt || new Date().toISOString(),
+    status: doc.status || "unknown",
+    userId: doc.userId,
+    blobMetadata: doc.blobMetadata,
+    // Documents uploaded before collections existed live in the default collection
+    collectionId: (doc as { collectionId?: string }).collectionId || DEFAULT_COLLECTION_ID,
+    // Set by ingestion jobs when indexing completes
+    chunkCount: (doc as { chunkCount?: number }).chunkCount,
+    indexDiff: (doc as { indexDiff?: ChunkDiffSummary }).indexDiff,
+    activeRevision: (doc as { activeRevision?: number }).activeRevision,
+    revisionCount: (doc as { revisionCount?: number }).revisionCount,
+    visibility: ((doc as { visibility?: DocumentVisibility }).visibility || "private") as DocumentVisibility,
+  }
+}
+
 // Enhanced document listing with proper validation and cleanup
 export async function getDocuments(limit = 100, cursor?: string) {
   console.log("[STORAGE] Getting documents, limit:", limit)
@@ -75,20 +114,7 @@ export async function getDocuments(limit = 100, cursor?: string) {
         }
 
         // Normalize and validate document
-        const normalizedDoc = {
-          id: doc.id,
-          name: doc.name || doc.filename || "Unnamed Document",
-          filename: doc.filename || doc.name || "Unnamed Document",
-          type: doc.type || doc.fileType || "unknown",
-          fileType: doc.fileType || doc.type || "unknown",
-          size: doc.size || doc.fileSize || 0,
-          fileSize: doc.fileSize || doc.size || 0,
-          url: doc.url || "",
-          uploadedAt: doc.uploadedAt || new Date().toISOString(),
-          status: doc.status || "unknown",
-          userId: doc.userId,
-          blobMetadata: doc.blobMetadata,
-        }
+        const normalizedDoc = normalizeDocument(doc)
 
         // Only include documents with valid IDs
         if (normalizedDoc.id && normalizedDoc.id !== "undefined" && normalizedDoc.id.trim() !== "") {
@@ -140,6 +166,38 @@ export async function getDocuments(limit = 100, cursor?: string) {
   }
 }
 
+// Documents a user may read: their own, shared ones and ones stored before ownership.
+// Looked up through the readable-id sets, so there is no limit and KV errors propagate.
+export async function getReadableDocuments(userId: string) {
+  const collections = await listCollections()
+  const ids = Array.from(
+    new Set((await Promise.all(collections.map((collection) => getReadableDocumentIds(userId, collection.id)))).flat()),
+  )
+
+  const documents = []
+  for (let i = 0; i < ids.length; i += READ_BATCH_SIZE) {
+    const records = await kv.mget<(Record<string, any> | null)[]>(
+      ...ids.slice(i, i + READ_BATCH_SIZE).map((id) => `document:${id}`),
+    )
+    documents.push(...records.filter((record): record is Record<string, any> => !!record?.id && !!record.name))
+  }
+
+  return documents.map(normalizeDocument).filter((document) => canReadDocument(document, userId))
+}
+
+// Every document in a collection regardless of owner, e.g. before the collection is deleted. KV errors propagate.
+export async function getCollectionDocuments(collectionId: string) {
+  const keys = (await kv.keys("document:*")).filter((key) => key.split(":").length === 2)
+
+  const documents = []
+  for (let i = 0; i < keys.length; i += READ_BATCH_SIZE) {
+    const records = await kv.mget<(Record<string, any> | null)[]>(...keys.slice(i, i + READ_BATCH_SIZE))
+    documents.push(...records.filter((record): record is Record<string, any> => !!record?.id))
+  }
+
+  return documents.map(normalizeDocument).filter((document) => document.collectionId === collectionId)
+}
+
 // Get document metadata and status with enhanced validation
 export async function getDocument(documentId: string): Promise<{
   id: string
@@ -239,35 +297,44 @@ export async function deleteDocument(documentId: string): Promise<{ success: boo
       url: document.url ? "present" : "missing",
     })
 
-    // Delete from Blob if URL exists
-    if (document.url) {
+    // Delete the files of every revision from Blob
+    const revisions = await deleteRevisions(documentId)
+    const blobUrls = Array.from(new Set([(document as { url?: string }).url, ...revisions.map((revision) => revision.url)].filter((url): url is string => !!url)))
+    if (blobUrls.length > 0) {
       try {
-        console.log("[STORAGE] Deleting blob:", document.url)
-        await del(document.url)
-        console.log("[STORAGE] Blob deleted successfully")
+        console.log("[STORAGE] Deleting blobs:", blobUrls)
+        await del(blobUrls)
+        console.log("[STORAGE] Blobs deleted successfully")
       } catch (blobError) {
         console.error(`[STORAGE] Error deleting blob for document ${documentId}:`, blobError)
         // Continue with deletion even if blob deletion fails
       }
     }
 
-    // Delete vectors from Pinecone
+    // Delete vectors from the vector store
     try {
-      console.log("[STORAGE] Deleting vectors from Pinecone")
-      const pinecone = createClient()
-
-      // Delete all vectors with matching documentId
-      await pinecone.delete({
-        filter: {
-          documentId: { $eq: documentId },
-        },
-      })
-      console.log("[STORAGE] Vectors deleted from Pinecone")
-    } catch (pineconeError) {
-      console.error(`[STORAGE] Error deleting vectors for document ${documentId}:`, pineconeError)
+      console.log("[STORAGE] Deleting vectors from the vector store")
+      const vectorStore = createVectorStore()
+      const collection = await getCollection((document as { collectionId?: string }).collectionId)
+
+      // Delete all vectors of the document from its collection
+      const deletedCount = await deleteDocumentVectors(vectorStore, documentId, collection?.namespace)
+      console.log(`[STORAGE] ${deletedCount} vectors deleted from the vector store`)
+    } catch (vectorError) {
+      console.error(`[STORAGE] Error deleting vectors for document ${documentId}:`, vectorError)
       // Continue with deletion even if vector deletion fails
     }
 
+    // Delete chunk text from the keyword index
+    try {
+      console.log("[STORAGE] Deleting keyword index entries")
+      await createKeywordIndex().deleteDocument(documentId)
+      console.log("[STORAGE] Keyword index entries deleted")
+    } catch (keywordError) {
+      console.error(`[STORAGE] Error deleting keyword index entries for document ${documentId}:`, keywordError)
+      // Continue with deletion even if keyword index cleanup fails
+    }
+
     // Delete metadata from KV - batch delete for efficiency
     const keysToDelete = [
       `document:${documentId}`,
@@ -278,8 +345,19 @@ export async function deleteDocument(documentId: string): Promise<{ success: boo
       `document:${documentId}:content-length`,
       `document:${documentId}:processed-at`,
       `document:${documentId}:processing-results`,
+      `document:${documentId}:job`,
+      `document:${documentId}:manifest`,
     ]
 
+    const { collectionId, userId, name, filename } = document as {
+      collectionId?: string
+      userId?: string
+      name?: string
+      filename?: string
+    }
+    await unregisterDocumentName(collectionId || DEFAULT_COLLECTION_ID, userId || "", name || filename || "", documentId)
+    await unindexDocumentAccess({ id: documentId, userId, collectionId })
+
     console.log("[STORAGE] Deleting KV keys:", keysToDelete)
     await Promise.all(keysToDelete.map((key) => kv.del(key)))
     console.log("[STORAGE] KV keys deleted successfully")
@@ -0,0 +1,31 @@
+/**
+ * Purpose: Token counting for chunking and budgeting
+ * Logic:
+ * - Uses the cl100k_base BPE vocabulary shared by text-embedding-3-* and GPT-4
+ * - Lazily builds a single encoder instance per isolate
+ * Runtime context: Edge Function
+ */
+import { Tiktoken } from "js-tiktoken/lite"
+import cl100k_base from "js-tiktoken/ranks/cl100k_base"
+
+let encoder: Tiktoken | null = null
+
+function getEncoder(): Tiktoken {
+  if (!encoder) {
+    encoder = new Tiktoken(cl100k_base)
+  }
+  return encoder
+}
+
+export function encodeTokens(text: string): number[] {
+  return getEncoder().encode(text)
+}
+
+export function decodeTokens(tokens: number[]): string {
+  return getEncoder().decode(tokens)
+}
+
+export function countTokens(text: string): number {
+  if (!text) return 0
+  return encodeTokens(text).length
+}
@@ -0,0 +1,186 @@
+/**
+ * Purpose: Offline retrieval evaluation
+ * Logic:
+ * - Chunks a golden set's documents with the production chunker
+ * - Indexes them into a local vector store and in-memory keyword index
+ * - Runs each golden question through searchVectors and scores the ranking
+ * - Reports recall@k, MRR and nDCG@k per question and averaged over the set
+ * Runtime context: Node.js (evaluation scripts)
+ *
+ * The default hash embedding provider keeps runs deterministic and offline. Absolute scores are
+ * lower than with real embeddings; compare runs against each other, not against production.
+ */
+import { chunkDocument } from "../documents/chunker"
+import { detectCodeLanguage } from "../documents/code"
+import { buildSearchFilter, type SearchFilters } from "../pinecone/filters"
+import { DEFAULT_FUSION_METHOD, DEFAULT_HYBRID_ALPHA, type FusionMethod } from "../pinecone/hybrid"
+import { InMemoryKeywordIndex } from "../pinecone/keyword-index"
+import { searchVectors } from "../pinecone/search"
+import { createReranker, type RerankerType } from "../ai/rerank"
+import { HashEmbeddingProvider, type EmbeddingProvider } from "../ai/embeddings"
+import { MemoryVectorStore } from "../vector-store/memory"
+import { averageMetrics, computeMetrics, judgeResults, type ExpectedSource, type RetrievalMetrics } from "./metrics"
+
+export interface GoldenDocument {
+  id: string
+  filename: string
+  type?: string
+  content: string
+}
+
+export interface GoldenQuestion {
+  id: string
+  question: string
+  expected: ExpectedSource[]
+  filters?: SearchFilters
+}
+
+export interface GoldenSet {
+  name: string
+  description?: string
+  documents: GoldenDocument[]
+  questions: GoldenQuestion[]
+}
+
+// Mirrors the app settings that affect retrieval
+export interface EvaluationConfig {
+  k: number
+  chunkSize: { text: number; code: number }
+  hybridSearch: boolean
+  fusionMethod: FusionMethod
+  hybridAlpha: number
+  reranker: RerankerType
+}
+
+export const DEFAULT_EVALUATION_CONFIG: EvaluationConfig = {
+  k: 5,
+  chunkSize: { text: 300, code: 1000 },
+  hybridSearch: true,
+  fusionMethod: DEFAULT_FUSION_METHOD,
+  hybridAlpha: DEFAULT_HYBRID_ALPHA,
+  reranker: "none",
+}
+
+export interface RetrievedChunk {
+  id: string
+  documentId: string
+  section: string | null
+  score: number
+  relevant: boolean
+}
+
+export interface QuestionReport {
+  id: string
+  question: string
+  metrics: RetrievalMetrics
+  retrieved: RetrievedChunk[]
+}
+
+export interface EvaluationReport {
+  set: string
+  config: EvaluationConfig
+  chunkCount: number
+  metrics: RetrievalMetrics
+  questions: QuestionReport[]
+}
+
+export async function runEvaluation(
+  goldenSet: GoldenSet,
+  config: Partial<EvaluationConfig> = {},
+  embedder: Pick<EmbeddingProvider, "embed"> = new HashEmbeddingProvider(),
+): Promise<EvaluationReport> {
+  const resolved: EvaluationConfig = { ...DEFAULT_EVALUATION_CONFIG, ...config }
+
+  // Index with the same chunking options the document processor uses
+  const chunks = goldenSet.documents.flatMap((document) =>
+    chunkDocument(document.id, document.content, document.filename, document.type || "text/markdown", {
+      chunkSize: resolved.chunkSize,
+      unit: "tokens",
+      overlap: document.type?.includes("code") || detectCodeLanguage(document.filename) ? 100 : 50,
+      preserveCode: true,
+    }),
+  )
+
+  const store = new MemoryVectorStore()
+  const keywordIndex = new InMemoryKeywordIndex()
+  const embeddings = await embedder.embed(chunks.map((chunk) => chunk.text))
+
+  await store.upsert(
+    chunks.map((chunk, i) => ({
+      id: chunk.id,
+      values: embeddings[i],
+      metadata: { ...chunk.metadata, text: chunk.text },
+    })),
+  )
+  await keywordIndex.upsert(chunks.map((chunk) => ({ id: chunk.id, text: chunk.text, metadata: chunk.metadata })))
+
+  const reranker = createReranker(resolved.reranker)
+  const questionEmbeddings = await embedder.embed(goldenSet.questions.map((item) => item.question))
+
+  const questions: QuestionReport[] = []
+  for (const [i, item] of goldenSet.questions.entries()) {
+    const results = await searchVectors(store, questionEmbeddings[i], {
+      topK: resolved.k,
+      filter: buildSearchFilter(item.filters),
+      hybridSearch: resolved.hybridSearch,
+      query: item.question,
+      keywordIndex,
+      fusion: resolved.fusionMethod,
+      alpha: resolved.hybridAlpha,
+      reranker,
+    })
+
+    const judgements = judgeResults(results, item.expected)
+
+    questions.push({
+      id: item.id,
+      question: item.question,
+      metrics: computeMetrics(results, item.expected, resolved.k),
+      retrieved: results.map((result, index) => ({
+        id: result.id,
+        documentId: result.metadata?.documentId || "",
+        section: result.metadata?.headingPath || result.metadata?.section || null,
+        score: result.score,
+        relevant: judgements[index] !== -1,
+      })),
+    })
+  }
+
+  return {
+    set: goldenSet.name,
+    config: resolved,
+    chunkCount: chunks.length,
+    metrics: averageMetrics(questions.map((item) => item.metrics)),
+    questions,
+  }
+}
+
+function formatMetric(value: number) {
+  return value.toFixed(3)
+}
+
+// Plain-text report for terminals and CI logs
+export function formatReport(report: EvaluationReport): string {
+  const { k } = report.config
+  const lines = [
+    `Golden set: ${report.set} (${report.questions.length} questions, ${report.chunkCount} chunks)`,
+    `Config: ${JSON.stringify(report.config)}`,
+    "",
+    `${"question".padEnd(32)} recall@${k}  RR     nDCG@${k}`,
+  ]
+
+  for (const item of report.questions) {
+    const { recall, reciprocalRank, ndcg } = item.metrics
+    lines.push(
+      `${item.id.slice(0, 32).padEnd(32)} ${formatMetric(recall).padEnd(9)} ${formatMetric(reciprocalRank).padEnd(6)} ${formatMetric(ndcg)}`,
+    )
+  }
+
+  const { recall, reciprocalRank, ndcg } = report.metrics
+  lines.push(
+    "",
+    `${"mean".padEnd(32)} ${formatMetric(recall).padEnd(9)} ${formatMetric(reciprocalRank).padEnd(6)} ${formatMetric(ndcg)}`,
+  )
+
+  return lines.join("\n")
+}
@@ -0,0 +1,92 @@
+/**
+ * Purpose: Retrieval quality metrics
+ * Logic:
+ * - Judges retrieved chunks against the expected documents/sections of a golden question
+ * - Computes recall@k, reciprocal rank and nDCG@k with binary relevance
+ * Runtime context: Node.js (evaluation scripts) or Edge Function
+ */
+import type { SearchResult } from "../pinecone/search"
+import { HEADING_PATH_SEPARATOR } from "../documents/chunker"
+
+// A relevant target for a question: a whole document, or one section of it
+export interface ExpectedSource {
+  documentId: string
+  // Heading text or full heading path ("Lumen > Hardware Ray Tracing")
+  section?: string
+}
+
+export interface RetrievalMetrics {
+  recall: number
+  reciprocalRank: number
+  ndcg: number
+}
+
+function normalize(value: string) {
+  return value.trim().toLowerCase()
+}
+
+export function matchesExpected(result: SearchResult, expected: ExpectedSource): boolean {
+  const metadata = result.metadata || {}
+  if (metadata.documentId !== expected.documentId) return false
+  if (!expected.section) return true
+
+  const section = normalize(expected.section)
+  const headingPath = metadata.headingPath ? normalize(metadata.headingPath) : ""
+
+  return (
+    headingPath === section ||
+    headingPath.endsWith(HEADING_PATH_SEPARATOR + section) ||
+    headingPath.startsWith(section + HEADING_PATH_SEPARATOR) ||
+    (!!metadata.heading && normalize(metadata.heading) === section) ||
+    (!!metadata.section && normalize(metadata.section) === section)
+  )
+}
+
+// For each ranked result, the index of the expected source it newly covers, or -1.
+// A source only earns credit once so duplicate hits do not inflate the scores.
+export function judgeResults(results: SearchResult[], expected: ExpectedSource[]): number[] {
+  const covered = new Set<number>()
+
+  return results.map((result) => {
+    const match = expected.findIndex((item, index) => !covered.has(index) && matchesExpected(result, item))
+    if (match !== -1) covered.add(match)
+    return match
+  })
+}
+
+export function computeMetrics(results: SearchResult[], expected: ExpectedSource[], k: number): RetrievalMetrics {
+  if (expected.length === 0) {
+    return { recall: 0, reciprocalRank: 0, ndcg: 0 }
+  }
+
+  const judgements = judgeResults(results.slice(0, k), expected)
+  const hits = judgements.filter((match) => match !== -1).length
+  const firstHit = judgements.findIndex((match) => match !== -1)
+
+  // Rank r (1-based) is discounted by log2(r + 1)
+  const dcg = judgements.reduce((sum, match, index) => sum + (match !== -1 ? 1 / Math.log2(index + 2) : 0), 0)
+  let idealDcg = 0
+  for (let index = 0; index < Math.min(expected.length, k); index++) {
+    idealDcg += 1 / Math.log2(index + 2)
+  }
+
+  return {
+    recall: hits / expected.length,
+    reciprocalRank: firstHit === -1 ? 0 : 1 / (firstHit + 1),
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+  }
+}
+
+export function averageMetrics(metrics: RetrievalMetrics[]): RetrievalMetrics {
+  if (metrics.length === 0) {
+    return { recall: 0, reciprocalRank: 0, ndcg: 0 }
+  }
+
+  const sum = (key: keyof RetrievalMetrics) => metrics.reduce((total, item) => total + item[key], 0) / metrics.length
+
+  return {
+    recall: sum("recall"),
+    reciprocalRank: sum("reciprocalRank"),
+    ndcg: sum("ndcg"),
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * Purpose: Answer feedback storage and aggregation
+ * Logic:
+ * - Stores thumbs up/down ratings and "not relevant" citation marks per answer
+ * - Keeps the query and the retrieved chunks (ids and scores) alongside each rating; both are taken from
+ *   the stored conversation turn, and chunks from documents the user cannot read are dropped
+ * - Aggregates feedback by document and by query for the quality dashboard, limited to what the reader may see
+ * Runtime context: Edge Function
+ * Services: Vercel KV
+ *
+ * Key layout:
+ * - feedback:{id}       one entry per user and assistant message
+ * - feedback:entries    sorted set of entry ids scored by last update
+ */
+import { kv } from "@vercel/kv"
+import { getConversationWithMessages } from "../conversations/storage"
+import { getReadableDocuments } from "../documents/storage"
+
+export type FeedbackRating = "up" | "down"
+
+export interface FeedbackChunk {
+  id: string
+  documentId: string
+  source: string
+  score: number
+}
+
+export interface FeedbackInput {
+  messageId: string
+  conversationId?: string | null
+  query: string
+  rating: FeedbackRating | null
+  irrelevantChunkIds: string[]
+  chunks: FeedbackChunk[]
+}
+
+export interface FeedbackEntry extends FeedbackInput {
+  id: string
+  userId: string
+  conversationId: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DocumentFeedbackStats {
+  documentId: string
+  source: string
+  // Rated answers that cited the document
+  retrieved: number
+  up: number
+  down: number
+  // Chunks from the document marked as not relevant
+  irrelevant: number
+}
+
+export interface QueryFeedbackStats {
+  query: string
+  count: number
+  up: number
+  down: number
+  irrelevant: number
+  lastAt: string
+}
+
+export interface FeedbackSummary {
+  total: number
+  up: number
+  down: number
+  irrelevant: number
+  byDocument: DocumentFeedbackStats[]
+  byQuery: QueryFeedbackStats[]
+  recent: FeedbackEntry[]
+}
+
+const ENTRIES_KEY = "feedback:entries"
+
+// Validates a feedback payload from the client
+export function validateFeedbackInput(input: unknown): { feedback?: FeedbackInput; error?: string } {
+  if (!input || typeof input !== "object") {
+    return { error: "Feedback must be an object" }
+  }
+
+  const { messageId, conversationId, query, rating, irrelevantChunkIds = [], chunks = [] } = input as Record<
+    string,
+    unknown
+  >
+
+  if (typeof messageId !== "string" || !messageId) {
+    return { error: "messageId is required" }
+  }
+  if (typeof query !== "string" || !query.trim()) {
+    return { error: "query is required" }
+  }
+  if (rating !== null && rating !== undefined && rating !== "up" && rating !== "down") {
+    return { error: "rating must be 'up', 'down' or null" }
+  }
+  if (conversationId !== undefined && conversationId !== null && typeof conversationId !== "string") {
+    return { error: "conversationId must be a string" }
+  }
+  if (!Array.isArray(irrelevantChunkIds) || irrelevantChunkIds.some((id) => typeof id !== "string")) {
+    return { error: "irrelevantChunkIds must be an array of strings" }
+  }
+  if (
+    !Array.isArray(chunks) ||
+    chunks.some(
+      (chunk) =>
+        !chunk ||
+        typeof chunk.id !== "string" ||
+        typeof chunk.documentId !== "string" ||
+        typeof chunk.score !== "number",
+    )
+  ) {
+    return { error: "chunks must be an array of { id, documentId, source, score }" }
+  }
+
+  return {
+    feedback: {
+      messageId,
+      conversationId: (conversationId as string | undefined) ?? null,
+      query: query.trim(),
+      rating: (rating as FeedbackRating | undefined) ?? null,
+      irrelevantChunkIds: irrelevantChunkIds as string[],
+      chunks: (chunks as FeedbackChunk[]).map(({ id, documentId, source, score }) => ({
+        id,
+        documentId,
+        source: typeof source === "string" ? source : documentId,
+        score,
+      })),
+    },
+  }
+}
+
+// Names of the documents a user may read, by id
+async function getReadableDocumentNames(userId: string): Promise<Map<string, string>> {
+  const documents = await getReadableDocuments(userId)
+  return new Map(documents.map((document) => [document.id, document.name]))
+}
+
+// Keeps the chunks from readable documents, under their current filename, and the marks on those chunks
+function limitToReadable(
+  feedback: FeedbackInput,
+  readable: Map<string, string>,
+): Pick<FeedbackInput, "chunks" | "irrelevantChunkIds"> {
+  const chunks = feedback.chunks
+    .filter((chunk) => readable.has(chunk.documentId))
+    .map((chunk) => ({ ...chunk, source: readable.get(chunk.documentId) || chunk.source }))
+  const chunkIds = new Set(chunks.map((chunk) => chunk.id))
+
+  return { chunks, irrelevantChunkIds: feedback.irrelevantChunkIds.filter((id) => chunkIds.has(id)) }
+}
+
+/**
+ * Replaces the client's copy of the answer with the server's. For a stored turn the chunks come from the
+ * assistant message's source annotations and the query from the user message before it; otherwise only
+ * chunks from documents the user can read are kept. Returns null when the conversation is not the user's.
+ */
+export async function resolveFeedbackInput(userId: string, feedback: FeedbackInput): Promise<FeedbackInput | null> {
+  let resolved = feedback
+
+  if (feedback.conversationId) {
+    const conversation = await getConversationWithMessages(userId, feedback.conversationId)
+    if (!conversation) return null
+
+    const index = conversation.messages.findIndex(
+      (message) => message.id === feedback.messageId && message.role === "assistant",
+    )
+    const question = conversation.messages
+      .slice(0, Math.max(index, 0))
+      .reverse()
+      .find((message) => message.role === "user")
+
+    if (index !== -1) {
+      resolved = {
+        ...feedback,
+        query: question?.content.trim() || feedback.query,
+        chunks: (conversation.messages[index].sources || []).map(({ id, documentId, source, score }) => ({
+          id,
+          documentId,
+          source,
+          score,
+        })),
+      }
+    }
+  }
+
+  return { ...resolved, ...limitToReadable(resolved, await getReadableDocumentNames(userId)) }
+}
+
+// Saves the current feedback state for an answer, replacing any earlier rating by the same user
+export async function saveFeedback(userId: string, input: FeedbackInput): Promise<FeedbackEntry> {
+  const id = `${userId}:${input.messageId}`
+  const existing = await kv.get<FeedbackEntry>(`feedback:${id}`)
+  const now = new Date().toISOString()
+
+  const entry: FeedbackEntry = {
+    ...input,
+    id,
+    userId,
+    conversationId: input.conversationId ?? null,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  }
+
+  // Clearing every signal removes the entry rather than storing an empty one
+  if (!entry.rating && entry.irrelevantChunkIds.length === 0) {
+    await kv.del(`feedback:${id}`)
+    await kv.zrem(ENTRIES_KEY, id)
+    return entry
+  }
+
+  await kv.set(`feedback:${id}`, entry)
+  await kv.zadd(ENTRIES_KEY, { score: Date.parse(now), member: id })
+
+  return entry
+}
+
+export async function listFeedback(limit = 500): Promise<FeedbackEntry[]> {
+  const ids = await kv.zrange<string[]>(ENTRIES_KEY, 0, limit - 1, { rev: true })
+  if (ids.length === 0) return []
+
+  const entries = await kv.mget<(FeedbackEntry | null)[]>(...ids.map((id) => `feedback:${id}`))
+  return entries.filter((entry): entry is FeedbackEntry => !!entry)
+}
+
+function negativeSignal(stats: { up: number; down: number; irrelevant: number }) {
+  return stats.down + stats.irrelevant - stats.up
+}
+
+// Groups entries by cited document and by normalized query, worst performers first
+export function aggregateFeedback(entries: FeedbackEntry[]): FeedbackSummary {
+  const documents = new Map<string, DocumentFeedbackStats>()
+  const queries = new Map<string, QueryFeedbackStats>()
+  let up = 0
+  let down = 0
+  let irrelevant = 0
+
+  for (const entry of entries) {
+    if (entry.rating === "up") up++
+    if (entry.rating === "down") down++
+    irrelevant += entry.irrelevantChunkIds.length
+
+    const irrelevantIds = new Set(entry.irrelevantChunkIds)
+    const seenDocuments = new Set<string>()
+
+    for (const chunk of entry.chunks) {
+      const stats = documents.get(chunk.documentId) || {
+        documentId: chunk.documentId,
+        source: chunk.source,
+        retrieved: 0,
+        up: 0,
+        down: 0,
+        irrelevant: 0,
+      }
+
+      // Count the answer's rating once per document even when several chunks were cited
+      if (!seenDocuments.has(chunk.documentId)) {
+        seenDocuments.add(chunk.documentId)
+        stats.retrieved++
+        if (entry.rating === "up") stats.up++
+        if (entry.rating === "down") stats.down++
+      }
+      if (irrelevantIds.has(chunk.id)) stats.irrelevant++
+
+      documents.set(chunk.documentId, stats)
+    }
+
+    const key = entry.query.toLowerCase().replace(/\s+/g, " ")
+    const stats = queries.get(key) || { query: entry.query, count: 0, up: 0, down: 0, irrelevant: 0, lastAt: "" }
+    stats.count++
+    if (entry.rating === "up") stats.up++
+    if (entry.rating === "down") stats.down++
+    stats.irrelevant += entry.irrelevantChunkIds.length
+    if (entry.updatedAt > stats.lastAt) stats.lastAt = entry.updatedAt
+    queries.set(key, stats)
+  }
+
+  return {
+    total: entries.length,
+    up,
+    down,
+    irrelevant,
+    byDocument: [...documents.values()].sort((a, b) => negativeSignal(b) - negativeSignal(a)),
+    byQuery: [...queries.values()].sort((a, b) => negativeSignal(b) - negativeSignal(a)),
+    recent: entries.slice(0, 20),
+  }
+}
+
+/**
+ * Summary as seen by one user. Citations of documents they cannot read are left out, and so are other
+ * users' entries that cited any, since the query and marks would reveal what those documents contain.
+ */
+export async function getFeedbackSummary(userId: string, limit?: number): Promise<FeedbackSummary> {
+  const [entries, readable] = await Promise.all([listFeedback(limit), getReadableDocumentNames(userId)])
+
+  const visible = entries.flatMap((entry) => {
+    const limited = limitToReadable(entry, readable)
+    if (entry.userId !== userId && limited.chunks.length < entry.chunks.length) return []
+    return [{ ...entry, ...limited }]
+  })
+
+  return aggregateFeedback(visible)
+}
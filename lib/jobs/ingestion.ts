@@ -0,0 +1,474 @@
+/**
+ * Purpose: Durable document ingestion jobs
+ * Logic:
+ * - Splits ingestion into short steps: prepare (fetch and chunk), one step per embedding batch, finalize
+ * - Only chunks missing from the document's chunk manifest are embedded; vectors of removed chunks are
+ *   deleted when the job finalizes
+ * - Unchanged chunks whose metadata moved on (position, filename, collection, owner) are re-stored with
+ *   their existing embedding after the embedding batches
+ * - Saves a checkpoint after every step, so a job resumes where it stopped after a timeout or crash
+ * - Retries a failed step with backoff before failing the job
+ * - A lease keeps two invocations from running the same job at once
+ * - Due jobs are picked up after the request that queued them, by status polling and by cron
+ * Runtime context: Edge Function
+ * Services: Vercel KV, Vercel Blob, embedding provider, vector store
+ *
+ * Key layout:
+ * - job:{id}               job record and checkpoint
+ * - job:{id}:batch:{n}     chunks of batch n, written when the job is prepared; refresh batches come last
+ * - job:{id}:manifest      chunk manifest of the revision being indexed, saved to the document on finalize
+ * - job:{id}:stale         vector ids of chunks the revision no longer has
+ * - job:{id}:lease         held while an invocation runs the job
+ * - jobs:queue             sorted set of runnable job ids scored by when they may next run
+ * - document:{id}:job      latest job for a document
+ */
+import { kv } from "@vercel/kv"
+import { getEmbeddingProvider, validateIndexDimensions } from "../ai/embeddings"
+import { DEFAULT_COLLECTION_ID, getCollection } from "../collections/storage"
+import type { Chunk } from "../documents/chunker"
+import {
+  type ChunkDiffSummary,
+  type ChunkManifest,
+  diffChunks,
+  formatChunkDiff,
+  getChunkManifest,
+  saveChunkManifest,
+  toChunkManifest,
+} from "../documents/manifest"
+import {
+  buildVectors,
+  chunkForIndexing,
+  DocumentProcessor,
+  extractVersionInfo,
+  loadDocumentContent,
+  toKeywordDocuments,
+} from "../documents/processor"
+import { createKeywordIndex } from "../pinecone/keyword-index"
+import { getSettings } from "../settings/storage"
+import { createVectorStore, deleteDocumentVectors, deleteVectorIds } from "../vector-store/client"
+
+export type JobStatus = "queued" | "running" | "completed" | "failed"
+export type JobStage = "queued" | "preparing" | "embedding" | "completed" | "failed"
+
+export interface IngestionJob {
+  id: string
+  documentId: string
+  collectionId: string
+  // Document owner, recorded on every vector
+  ownerId?: string
+  status: JobStatus
+  stage: JobStage
+  percent: number
+  message: string
+  // Checkpoint: batches are written once prepared, and the job finalizes when every batch is stored
+  prepared: boolean
+  totalBatches: number
+  // Trailing batches of unchanged chunks that only need current metadata
+  refreshBatches?: number
+  completedBatches: number
+  chunkCount: number
+  vectorCount: number
+  totalTokens: number
+  // Chunk changes against the previously indexed revision
+  diff?: ChunkDiffSummary
+  // First UE version named in the document, inherited by chunks that name none
+  documentVersion?: string | null
+  embeddingModel?: string
+  embeddingDimensions?: number
+  // Failed attempts at the current step; reset when a step succeeds
+  attempts: number
+  error?: string
+  createdAt: string
+  updatedAt: string
+  completedAt?: string
+}
+
+// Chunks embedded and stored per step
+const BATCH_SIZE = 20
+const MAX_ATTEMPTS = 3
+// Backoff before retrying a failed step: 5s, 10s, ...
+const RETRY_BASE_DELAY_MS = 5000
+// Longer than any single step, so a crashed invocation's lease expires on its own
+const LEASE_SECONDS = 60
+// Steps run per invocation; the rest resumes from the checkpoint on the next one
+const DEFAULT_TIME_BUDGET_MS = 20000
+// Prepared batches, manifest and stale ids are kept this long in case a job stalls
+const BATCH_TTL_SECONDS = 7 * 24 * 3600
+
+const QUEUE_KEY = "jobs:queue"
+
+function jobKey(jobId: string) {
+  return `job:${jobId}`
+}
+
+function batchKey(jobId: string, batch: number) {
+  return `job:${jobId}:batch:${batch}`
+}
+
+function isActive(job: IngestionJob) {
+  return job.status === "queued" || job.status === "running"
+}
+
+export async function getJob(jobId: string): Promise<IngestionJob | null> {
+  return kv.get<IngestionJob>(jobKey(jobId))
+}
+
+export async function getDocumentJob(documentId: string): Promise<IngestionJob | null> {
+  const jobId = await kv.get<string>(`document:${documentId}:job`)
+  return jobId ? getJob(jobId) : null
+}
+
+async function saveJob(job: IngestionJob, changes: Partial<IngestionJob>): Promise<IngestionJob> {
+  const updated = { ...job, ...changes, updatedAt: new Date().toISOString() }
+  await kv.set(jobKey(job.id), updated)
+  return updated
+}
+
+// Mirrors job progress onto the document, where the document list reads it
+async function updateDocumentStatus(
+  documentId: string,
+  status: "processing" | "completed" | "error",
+  percent: number,
+  extra: Record<string, any> = {},
+) {
+  await new DocumentProcessor(documentId).setState(status === "error" ? "failed" : status, percent)
+
+  const document = await kv.get<Record<string, any>>(`document:${documentId}`)
+  if (document) {
+    await kv.set(`document:${documentId}`, { ...document, status, ...extra })
+  }
+}
+
+/**
+ * Queue ingestion for a document. Returns the running job instead when the
+ * document is already being ingested.
+ */
+export async function createIngestionJob(documentId: string): Promise<IngestionJob> {
+  const existing = await getDocumentJob(documentId)
+  if (existing && isActive(existing)) {
+    return existing
+  }
+
+  const document = await kv.get<{ collectionId?: string; userId?: string }>(`document:${documentId}`)
+  const now = new Date().toISOString()
+  const job: IngestionJob = {
+    id: `job-${crypto.randomUUID()}`,
+    documentId,
+    collectionId: document?.collectionId || DEFAULT_COLLECTION_ID,
+    ownerId: document?.userId,
+    status: "queued",
+    stage: "queued",
+    percent: 0,
+    message: "Waiting to start...",
+    prepared: false,
+    totalBatches: 0,
+    completedBatches: 0,
+    chunkCount: 0,
+    vectorCount: 0,
+    totalTokens: 0,
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await kv.set(jobKey(job.id), job)
+  await kv.set(`document:${documentId}:job`, job.id)
+  await kv.zadd(QUEUE_KEY, { score: Date.now(), member: job.id })
+  await updateDocumentStatus(documentId, "processing", 0)
+
+  console.log("[JOBS] Queued ingestion job", job.id, "for document", documentId)
+  return job
+}
+
+// Puts a failed job back in the queue; it continues from its last checkpoint
+export async function resumeJob(jobId: string): Promise<IngestionJob | null> {
+  const job = await getJob(jobId)
+  if (!job) return null
+  if (job.status === "completed" || job.status === "running") return job
+
+  const resumed = await saveJob(job, {
+    status: "queued",
+    stage: job.prepared ? "embedding" : "queued",
+    attempts: 0,
+    error: undefined,
+    message: "Resuming from the last checkpoint...",
+  })
+  await kv.zadd(QUEUE_KEY, { score: Date.now(), member: jobId })
+  await updateDocumentStatus(job.documentId, "processing", job.percent)
+  return resumed
+}
+
+// Whether a queued job may run now: it is due and no invocation holds its lease
+export async function isJobRunnable(jobId: string): Promise<boolean> {
+  const [score, lease] = await Promise.all([kv.zscore(QUEUE_KEY, jobId), kv.exists(`${jobKey(jobId)}:lease`)])
+  return score !== null && Number(score) <= Date.now() && !lease
+}
+
+// Fetch and chunk the document, diff it against the indexed revision, then store the chunks to embed in batches
+async function prepare(job: IngestionJob): Promise<IngestionJob> {
+  job = await saveJob(job, { status: "running", stage: "preparing", percent: 5, message: "Fetching document..." })
+
+  const document = await kv.get<{ url?: string; type?: string; fileType?: string }>(`document:${job.documentId}`)
+  if (!document?.url) {
+    throw new Error("Document not found in storage. It may have been deleted.")
+  }
+
+  const collection = await getCollection(job.collectionId)
+  if (!collection) {
+    throw new Error(`Collection not found: ${job.collectionId}`)
+  }
+
+  // Check the provider against the index before spending time on embeddings
+  const vectorStore = createVectorStore()
+  const embeddingProvider = await getEmbeddingProvider()
+  await validateIndexDimensions(embeddingProvider, vectorStore)
+
+  const type = document.type || document.fileType || "text/plain"
+  const { content, filename } = await loadDocumentContent(job.documentId, document.url, type, () => {})
+  const chunks = await chunkForIndexing(job.documentId, content, filename, type, (await getSettings()).chunkSize)
+
+  const documentVersion = extractVersionInfo(content)
+  const context = { collectionId: collection.id, ownerId: job.ownerId, documentVersion }
+
+  const previous = await getChunkManifest(job.documentId)
+  if (!previous) {
+    // Nothing records what is indexed (first run, or indexed before manifests existed): clear the document
+    await deleteDocumentVectors(vectorStore, job.documentId, collection.namespace)
+    await createKeywordIndex().deleteDocument(job.documentId)
+  }
+
+  const diff = diffChunks(previous, chunks, embeddingProvider, context)
+  console.log(`[JOBS] Job ${job.id} chunk diff: ${formatChunkDiff(diff.summary)}`)
+
+  const toBatches = (list: Chunk[]) =>
+    Array.from({ length: Math.ceil(list.length / BATCH_SIZE) }, (_, i) => list.slice(i * BATCH_SIZE, (i + 1) * BATCH_SIZE))
+  const batches = [...toBatches(diff.toEmbed), ...toBatches(diff.toRefresh)]
+  const refreshBatches = batches.length - Math.ceil(diff.toEmbed.length / BATCH_SIZE)
+  const totalBatches = batches.length
+  for (let batch = 0; batch < totalBatches; batch++) {
+    await kv.set(batchKey(job.id, batch), batches[batch], { ex: BATCH_TTL_SECONDS })
+  }
+  await kv.set(`${jobKey(job.id)}:manifest`, toChunkManifest(chunks, embeddingProvider, context), {
+    ex: BATCH_TTL_SECONDS,
+  })
+  await kv.set(`${jobKey(job.id)}:stale`, diff.staleIds, { ex: BATCH_TTL_SECONDS })
+
+  const totalTokens = chunks.reduce((sum, chunk) => sum + chunk.metadata.tokenCount, 0)
+  return saveJob(job, {
+    stage: "embedding",
+    percent: 10,
+    message: `Document chunked into ${chunks.length} semantic segments (${formatChunkDiff(diff.summary)}). ${
+      diff.toEmbed.length > 0 ? "Generating embeddings..." : "No chunks to embed."
+    }`,
+    prepared: true,
+    totalBatches,
+    refreshBatches,
+    completedBatches: 0,
+    chunkCount: chunks.length,
+    vectorCount: 0,
+    totalTokens,
+    diff: diff.summary,
+    documentVersion,
+    embeddingModel: embeddingProvider.model,
+    embeddingDimensions: embeddingProvider.dimensions,
+    attempts: 0,
+  })
+}
+
+// Embed and store the next batch, or re-store a refresh batch with its existing embeddings;
+// upserts are idempotent, so a retried batch is safe
+async function embedNextBatch(job: IngestionJob): Promise<IngestionJob> {
+  const batch = job.completedBatches
+  const chunks = await kv.get<Chunk[]>(batchKey(job.id, batch))
+  if (!chunks) {
+    // Prepared batches expired; start over from chunking
+    return saveJob(job, { prepared: false, completedBatches: 0, vectorCount: 0, message: "Re-chunking document..." })
+  }
+
+  const collection = await getCollection(job.collectionId)
+  if (!collection) {
+    throw new Error(`Collection not found: ${job.collectionId}`)
+  }
+
+  const vectorStore = createVectorStore()
+  const embeddingProvider = await getEmbeddingProvider()
+  const refreshing = batch >= job.totalBatches - (job.refreshBatches || 0)
+
+  // Refresh batches reuse stored embeddings; a chunk whose vector has gone missing is embedded again
+  const stored = new Map<string, number[]>()
+  if (refreshing) {
+    const existing = await vectorStore.fetch(chunks.map((chunk) => chunk.id), collection.namespace)
+    existing.forEach((vector) => stored.set(vector.id, vector.values))
+  }
+  const toEmbed = chunks.filter((chunk) => !stored.has(chunk.id))
+  const fresh = toEmbed.length > 0 ? await embeddingProvider.embed(toEmbed.map((chunk) => chunk.text)) : []
+  toEmbed.forEach((chunk, i) => stored.set(chunk.id, fresh[i]))
+
+  const embeddings = chunks.map((chunk) => stored.get(chunk.id)!)
+  const vectors = buildVectors(chunks, embeddings, {
+    embeddingProvider,
+    collectionId: collection.id,
+    documentVersion: job.documentVersion ?? null,
+    ownerId: job.ownerId,
+  })
+
+  await vectorStore.upsert(vectors, collection.namespace)
+  await createKeywordIndex().upsert(toKeywordDocuments(vectors, job.documentId, collection.namespace))
+
+  const completedBatches = batch + 1
+  const percent = 10 + Math.floor((completedBatches / job.totalBatches) * 85)
+  const vectorCount = job.vectorCount + toEmbed.length
+  const chunksToEmbed = job.diff ? job.diff.added + job.diff.changed : job.chunkCount
+  const changes = job.diff ? `; ${formatChunkDiff(job.diff)}` : ""
+  await updateDocumentStatus(job.documentId, "processing", percent)
+
+  return saveJob(job, {
+    status: "running",
+    stage: "embedding",
+    percent,
+    message: refreshing
+      ? `Updated metadata of unchanged chunks, batch ${completedBatches}/${job.totalBatches}${changes}`
+      : `Embedded and stored batch ${completedBatches}/${job.totalBatches} (${vectorCount}/${chunksToEmbed} chunks${changes})`,
+    completedBatches,
+    vectorCount,
+    embeddingModel: embeddingProvider.model,
+    embeddingDimensions: embeddingProvider.dimensions,
+    attempts: 0,
+  })
+}
+
+// Swap in the new revision: drop vectors of removed chunks, then record the new manifest
+async function finalize(job: IngestionJob): Promise<IngestionJob> {
+  const completedAt = new Date().toISOString()
+
+  const [manifest, staleIds] = await Promise.all([
+    kv.get<ChunkManifest>(`${jobKey(job.id)}:manifest`),
+    kv.get<string[]>(`${jobKey(job.id)}:stale`),
+  ])
+  if (!manifest) {
+    // Expired with the batches; start over from chunking
+    return saveJob(job, { prepared: false, completedBatches: 0, vectorCount: 0, message: "Re-chunking document..." })
+  }
+
+  const collection = await getCollection(job.collectionId)
+  if (staleIds && staleIds.length > 0) {
+    await deleteVectorIds(createVectorStore(), staleIds, collection?.namespace)
+    await createKeywordIndex().delete(staleIds)
+  }
+  await saveChunkManifest(job.documentId, manifest)
+
+  await kv.set(`document:${job.documentId}:chunks`, job.chunkCount)
+  await kv.set(`document:${job.documentId}:vectors`, job.chunkCount)
+  await updateDocumentStatus(job.documentId, "completed", 100, {
+    chunkCount: job.chunkCount,
+    vectorCount: job.chunkCount,
+    indexDiff: job.diff,
+    processedAt: completedAt,
+  })
+
+  await Promise.all([
+    ...Array.from({ length: job.totalBatches }, (_, batch) => kv.del(batchKey(job.id, batch))),
+    kv.del(`${jobKey(job.id)}:manifest`),
+    kv.del(`${jobKey(job.id)}:stale`),
+  ])
+  await kv.zrem(QUEUE_KEY, job.id)
+
+  return saveJob(job, {
+    status: "completed",
+    stage: "completed",
+    percent: 100,
+    message: `Document processing completed successfully. ${job.chunkCount} chunks indexed${
+      job.diff ? ` (${formatChunkDiff(job.diff)})` : ""
+    }, ${job.vectorCount} embedded.`,
+    completedAt,
+  })
+}
+
+async function runStep(job: IngestionJob): Promise<IngestionJob> {
+  if (!job.prepared) return prepare(job)
+  if (job.completedBatches < job.totalBatches) return embedNextBatch(job)
+  return finalize(job)
+}
+
+// Schedules a retry with backoff, or fails the job once attempts run out
+async function handleStepError(job: IngestionJob, error: unknown): Promise<IngestionJob> {
+  const message = error instanceof Error ? error.message : "Processing failed"
+  const attempts = job.attempts + 1
+  console.error(`[JOBS] Job ${job.id} step failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, error)
+
+  if (attempts >= MAX_ATTEMPTS) {
+    await kv.zrem(QUEUE_KEY, job.id)
+    await updateDocumentStatus(job.documentId, "error", job.percent)
+    await kv.set(`document:${job.documentId}:error`, message)
+    return saveJob(job, { status: "failed", stage: "failed", attempts, error: message, message })
+  }
+
+  const delay = RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)
+  await kv.zadd(QUEUE_KEY, { score: Date.now() + delay, member: job.id })
+  return saveJob(job, {
+    status: "queued",
+    attempts,
+    error: message,
+    message: `Retrying in ${Math.round(delay / 1000)}s after an error: ${message}`,
+  })
+}
+
+/**
+ * Run a job's steps until it finishes, fails, waits for a retry or the time
+ * budget runs out. Returns the job as it was left.
+ */
+export async function runJob(jobId: string, timeBudgetMs = DEFAULT_TIME_BUDGET_MS): Promise<IngestionJob | null> {
+  const leaseKey = `${jobKey(jobId)}:lease`
+  const acquired = await kv.set(leaseKey, Date.now(), { nx: true, ex: LEASE_SECONDS })
+  if (!acquired) {
+    // Another invocation is running it
+    return getJob(jobId)
+  }
+
+  const deadline = Date.now() + timeBudgetMs
+  let job = await getJob(jobId)
+
+  try {
+    while (job && isActive(job) && Date.now() < deadline) {
+      try {
+        job = await runStep(job)
+        // Keep the lease alive across long jobs
+        await kv.expire(leaseKey, LEASE_SECONDS)
+      } catch (error) {
+        job = await handleStepError(job, error)
+        break
+      }
+    }
+
+    // Out of time: leave it queued so the next invocation picks up from the checkpoint
+    if (job && job.status === "running") {
+      job = await saveJob(job, { status: "queued" })
+    }
+
+    return job
+  } finally {
+    await kv.del(leaseKey)
+  }
+}
+
+// Runs queued jobs that are due, oldest first, within one time budget
+export async function runDueJobs(timeBudgetMs = DEFAULT_TIME_BUDGET_MS): Promise<IngestionJob[]> {
+  const deadline = Date.now() + timeBudgetMs
+  const jobIds = await kv.zrange<string[]>(QUEUE_KEY, 0, Date.now(), { byScore: true, offset: 0, count: 10 })
+  const results: IngestionJob[] = []
+
+  for (const jobId of jobIds) {
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) break
+
+    const job = await runJob(jobId, remaining)
+    if (job) {
+      results.push(job)
+    } else {
+      // The job record is gone; drop the stale queue entry
+      await kv.zrem(QUEUE_KEY, jobId)
+    }
+  }
+
+  return results
+}
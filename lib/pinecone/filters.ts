@@ -0,0 +1,157 @@
+/**
+ * Purpose: Search scope filters
+ * Logic:
+ * - Validates the structured filters accepted by the search and chat APIs
+ * - Translates them into Pinecone metadata filters
+ * - Evaluates Pinecone-style metadata filters ($eq, $in, $gt, $and, ...) in memory
+ *   so non-Pinecone indexes apply the same scope as vector queries
+ * Runtime context: Edge Function
+ */
+
+export type MetadataFilter = Record<string, any>
+
+export interface SearchFilters {
+  // Restrict to these documents
+  documentIds?: string[]
+  // Inclusive UE version range, e.g. { min: "5.3", max: "5.4" }
+  version?: { min?: string; max?: string }
+  // Chunks mentioning any of these technical terms (see extractTechnicalTerms)
+  technicalTerms?: string[]
+}
+
+// Versions are stored as major * 100 + minor so Pinecone can range-filter them numerically
+export function parseVersionCode(version: string | null | undefined): number | undefined {
+  const match = version?.match(/^(\d+)(?:\.(\d+))?/)
+  if (!match) return undefined
+  return Number(match[1]) * 100 + Number(match[2] || 0)
+}
+
+export function validateSearchFilters(input: unknown): { filters?: SearchFilters; error?: string } {
+  if (input === undefined || input === null) {
+    return {}
+  }
+
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "filters must be an object" }
+  }
+
+  const { documentIds, version, technicalTerms } = input as Record<string, unknown>
+  const filters: SearchFilters = {}
+
+  for (const [name, value] of [
+    ["documentIds", documentIds],
+    ["technicalTerms", technicalTerms],
+  ] as const) {
+    if (value === undefined) continue
+    if (!Array.isArray(value) || !value.every((item) => typeof item === "string" && item.trim())) {
+      return { error: `filters.${name} must be an array of non-empty strings` }
+    }
+    if (value.length > 0) {
+      filters[name] = name === "technicalTerms" ? value.map((term) => term.toLowerCase()) : value
+    }
+  }
+
+  if (version !== undefined) {
+    const { min, max } = (version || {}) as { min?: unknown; max?: unknown }
+    for (const bound of [min, max]) {
+      if (bound !== undefined && (typeof bound !== "string" || parseVersionCode(bound) === undefined)) {
+        return { error: 'filters.version bounds must be version strings such as "5.4"' }
+      }
+    }
+    if (min !== undefined || max !== undefined) {
+      filters.version = { min: min as string | undefined, max: max as string | undefined }
+    }
+  }
+
+  return { filters }
+}
+
+export function buildSearchFilter(filters?: SearchFilters): MetadataFilter | undefined {
+  if (!filters) return undefined
+
+  const clauses: MetadataFilter[] = []
+
+  if (filters.documentIds?.length) {
+    clauses.push({ documentId: { $in: filters.documentIds } })
+  }
+
+  if (filters.technicalTerms?.length) {
+    // technicalTerms is a list field; $in matches chunks containing any of the terms
+    clauses.push({ technicalTerms: { $in: filters.technicalTerms } })
+  }
+
+  const minVersion = parseVersionCode(filters.version?.min)
+  const maxVersion = parseVersionCode(filters.version?.max)
+  if (minVersion !== undefined || maxVersion !== undefined) {
+    clauses.push({
+      versionCode: {
+        ...(minVersion !== undefined && { $gte: minVersion }),
+        ...(maxVersion !== undefined && { $lte: maxVersion }),
+      },
+    })
+  }
+
+  if (clauses.length === 0) return undefined
+  return clauses.length === 1 ? clauses[0] : { $and: clauses }
+}
+
+export function matchesFilter(metadata: Record<string, any> | undefined, filter?: MetadataFilter): boolean {
+  if (!filter || Object.keys(filter).length === 0) {
+    return true
+  }
+
+  const values = metadata || {}
+
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === "$and") {
+      return (condition as MetadataFilter[]).every((clause) => matchesFilter(values, clause))
+    }
+
+    if (key === "$or") {
+      return (condition as MetadataFilter[]).some((clause) => matchesFilter(values, clause))
+    }
+
+    return matchesCondition(values[key], condition)
+  })
+}
+
+function matchesCondition(value: any, condition: any): boolean {
+  // Bare values are shorthand for $eq
+  if (condition === null || typeof condition !== "object" || Array.isArray(condition)) {
+    return matchesOperator(value, "$eq", condition)
+  }
+
+  return Object.entries(condition).every(([operator, operand]) => matchesOperator(value, operator, operand))
+}
+
+function matchesOperator(value: any, operator: string, operand: any): boolean {
+  // List-valued metadata matches when any element matches, as in Pinecone
+  if (Array.isArray(value) && operator !== "$exists") {
+    return operator === "$ne" || operator === "$nin"
+      ? value.every((item) => matchesOperator(item, operator, operand))
+      : value.some((item) => matchesOperator(item, operator, operand))
+  }
+
+  switch (operator) {
+    case "$eq":
+      return value === operand
+    case "$ne":
+      return value !== operand
+    case "$gt":
+      return typeof value === "number" && value > operand
+    case "$gte":
+      return typeof value === "number" && value >= operand
+    case "$lt":
+      return typeof value === "number" && value < operand
+    case "$lte":
+      return typeof value === "number" && value <= operand
+    case "$in":
+      return Array.isArray(operand) && operand.includes(value)
+    case "$nin":
+      return Array.isArray(operand) && !operand.includes(value)
+    case "$exists":
+      return operand ? value !== undefined && value !== null : value === undefined || value === null
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`)
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Purpose: Fusion of dense and keyword search results
+ * Logic:
+ * - Reciprocal rank fusion (rank-based, no score calibration needed)
+ * - Weighted fusion of min-max normalized scores, balanced by alpha
+ * - Merging of result lists from several sub-queries
+ * Runtime context: Edge Function
+ */
+import type { SearchResult } from "./search"
+
+export type FusionMethod = "rrf" | "weighted"
+
+export interface FusionOptions {
+  method?: FusionMethod
+  // Weight of the dense results in weighted fusion (0 = keyword only, 1 = vector only)
+  alpha?: number
+  // RRF rank constant; larger values flatten the contribution of top ranks
+  rrfK?: number
+}
+
+export const DEFAULT_FUSION_METHOD: FusionMethod = "rrf"
+export const DEFAULT_HYBRID_ALPHA = 0.5
+
+export function fuseResults(
+  denseResults: SearchResult[],
+  keywordResults: SearchResult[],
+  options: FusionOptions = {},
+): SearchResult[] {
+  const { method = DEFAULT_FUSION_METHOD, alpha = DEFAULT_HYBRID_ALPHA, rrfK = 60 } = options
+
+  const denseContribution =
+    method === "rrf" ? rankScores(denseResults, rrfK) : normalizedScores(denseResults, clamp(alpha))
+  const keywordContribution =
+    method === "rrf" ? rankScores(keywordResults, rrfK) : normalizedScores(keywordResults, 1 - clamp(alpha))
+
+  const fused = new Map<string, SearchResult>()
+
+  for (const result of denseResults) {
+    fused.set(result.id, { ...result, vectorScore: result.score, score: denseContribution.get(result.id) || 0 })
+  }
+
+  for (const result of keywordResults) {
+    const keywordScore = keywordContribution.get(result.id) || 0
+    const existing = fused.get(result.id)
+
+    if (existing) {
+      existing.score += keywordScore
+      existing.keywordScore = result.score
+      existing.text = existing.text || result.text
+    } else {
+      fused.set(result.id, { ...result, keywordScore: result.score, score: keywordScore })
+    }
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Merges ranked lists (e.g. one per sub-query) with reciprocal rank fusion. Results found
+ * by several queries rise to the top; stage scores from the first list that had them are kept.
+ */
+export function mergeResultLists(lists: SearchResult[][], topK: number, rrfK = 60): SearchResult[] {
+  const nonEmpty = lists.filter((list) => list.length > 0)
+  if (nonEmpty.length <= 1) {
+    return (nonEmpty[0] || []).slice(0, topK)
+  }
+
+  const merged = new Map<string, SearchResult>()
+
+  for (const list of nonEmpty) {
+    for (const [id, score] of rankScores(list, rrfK)) {
+      const existing = merged.get(id)
+      if (existing) {
+        existing.score += score
+      } else {
+        merged.set(id, { ...list.find((result) => result.id === id)!, score })
+      }
+    }
+  }
+
+  return Array.from(merged.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+}
+
+function rankScores(results: SearchResult[], rrfK: number): Map<string, number> {
+  return new Map(results.map((result, rank) => [result.id, 1 / (rrfK + rank + 1)]))
+}
+
+function normalizedScores(results: SearchResult[], weight: number): Map<string, number> {
+  const scores = results.map((result) => result.score)
+  const min = Math.min(...scores)
+  const range = Math.max(...scores) - min
+
+  return new Map(results.map((result) => [result.id, weight * (range > 0 ? (result.score - min) / range : 1)]))
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
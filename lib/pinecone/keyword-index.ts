@@ -0,0 +1,348 @@
+/**
+ * Purpose: Lexical (BM25) index over chunk text
+ * Logic:
+ * - Tokenizes chunk text keeping identifiers such as r.Lumen.HardwareRayTracing intact
+ * - Scores chunks with Okapi BM25
+ * - Stores postings in Vercel KV, or in memory for local runs
+ * Runtime context: Edge Function
+ * Services: Vercel KV
+ */
+import { kv } from "@vercel/kv"
+import { matchesFilter, type MetadataFilter } from "./filters"
+import type { SearchResult } from "./search"
+
+export interface KeywordDocument {
+  id: string
+  text: string
+  metadata: Record<string, any> & { documentId: string }
+}
+
+export interface KeywordSearchOptions {
+  topK?: number
+  filter?: MetadataFilter
+  // Collection namespace; chunks indexed without one belong to the default namespace ""
+  namespace?: string
+}
+
+export interface KeywordIndex {
+  upsert(documents: KeywordDocument[]): Promise<void>
+  delete(chunkIds: string[]): Promise<void>
+  deleteDocument(documentId: string): Promise<void>
+  search(query: string, options?: KeywordSearchOptions): Promise<SearchResult[]>
+}
+
+// Standard Okapi BM25 parameters
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+// Identifiers joined by ".", "::" or "->" are kept whole as well as split into parts
+const TOKEN_PATTERN = /[A-Za-z0-9_]+(?:(?:\.|::|->)[A-Za-z0-9_]+)*/g
+
+const STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "how",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "what",
+  "when",
+  "with",
+])
+
+export function tokenizeKeywords(text: string): string[] {
+  const tokens: string[] = []
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const token = match[0].toLowerCase()
+    const parts = token.split(/\.|::|->/)
+
+    for (const candidate of parts.length > 1 ? [token, ...parts] : [token]) {
+      if (candidate.length > 1 && !STOPWORDS.has(candidate)) {
+        tokens.push(candidate)
+      }
+    }
+  }
+
+  return tokens
+}
+
+function termFrequencies(tokens: string[]): Record<string, number> {
+  const frequencies: Record<string, number> = {}
+  for (const token of tokens) {
+    frequencies[token] = (frequencies[token] || 0) + 1
+  }
+  return frequencies
+}
+
+function inNamespace(metadata: KeywordDocument["metadata"], namespace = ""): boolean {
+  return (metadata.namespace || "") === namespace
+}
+
+function bm25(
+  termFrequency: number,
+  documentFrequency: number,
+  length: number,
+  totalDocuments: number,
+  averageLength: number,
+): number {
+  const idf = Math.log(1 + (totalDocuments - documentFrequency + 0.5) / (documentFrequency + 0.5))
+  const norm = termFrequency + BM25_K1 * (1 - BM25_B + BM25_B * (length / (averageLength || 1)))
+  return (idf * termFrequency * (BM25_K1 + 1)) / norm
+}
+
+interface IndexedChunk {
+  text: string
+  metadata: KeywordDocument["metadata"]
+  length: number
+  terms: Record<string, number>
+}
+
+/**
+ * In-process index, used for local development and evaluation runs
+ */
+export class InMemoryKeywordIndex implements KeywordIndex {
+  private chunks = new Map<string, IndexedChunk>()
+  private postings = new Map<string, Map<string, number>>()
+  private totalLength = 0
+
+  async upsert(documents: KeywordDocument[]): Promise<void> {
+    for (const document of documents) {
+      this.removeChunk(document.id)
+
+      const tokens = tokenizeKeywords(document.text)
+      const terms = termFrequencies(tokens)
+      this.chunks.set(document.id, { text: document.text, metadata: document.metadata, length: tokens.length, terms })
+      this.totalLength += tokens.length
+
+      for (const [term, frequency] of Object.entries(terms)) {
+        if (!this.postings.has(term)) {
+          this.postings.set(term, new Map())
+        }
+        this.postings.get(term)!.set(document.id, frequency)
+      }
+    }
+  }
+
+  async delete(chunkIds: string[]): Promise<void> {
+    for (const id of chunkIds) {
+      this.removeChunk(id)
+    }
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    for (const [id, chunk] of this.chunks) {
+      if (chunk.metadata.documentId === documentId) {
+        this.removeChunk(id)
+      }
+    }
+  }
+
+  async search(query: string, options: KeywordSearchOptions = {}): Promise<SearchResult[]> {
+    const { topK = 10, filter, namespace } = options
+    const totalDocuments = this.chunks.size
+    const averageLength = totalDocuments > 0 ? this.totalLength / totalDocuments : 0
+    const scores = new Map<string, number>()
+
+    for (const term of new Set(tokenizeKeywords(query))) {
+      const posting = this.postings.get(term)
+      if (!posting) continue
+
+      for (const [id, frequency] of posting) {
+        const chunk = this.chunks.get(id)!
+        const score = bm25(frequency, posting.size, chunk.length, totalDocuments, averageLength)
+        scores.set(id, (scores.get(id) || 0) + score)
+      }
+    }
+
+    return Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score, chunk: this.chunks.get(id)! }))
+      .filter(({ chunk }) => inNamespace(chunk.metadata, namespace) && matchesFilter(chunk.metadata, filter))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map(({ id, score, chunk }) => ({ id, score, text: chunk.text, metadata: chunk.metadata, keywordScore: score }))
+  }
+
+  private removeChunk(id: string) {
+    const chunk = this.chunks.get(id)
+    if (!chunk) return
+
+    for (const term of Object.keys(chunk.terms)) {
+      const posting = this.postings.get(term)
+      posting?.delete(id)
+      if (posting && posting.size === 0) {
+        this.postings.delete(term)
+      }
+    }
+
+    this.totalLength -= chunk.length
+    this.chunks.delete(id)
+  }
+}
+
+/**
+ * KV-backed index. Layout:
+ * - keyword:term:{term}         hash of chunkId -> term frequency
+ * - keyword:lengths             hash of chunkId -> token count
+ * - keyword:chunk:{chunkId}     text, metadata and the chunk's terms
+ * - keyword:document:{id}       set of chunk ids for a document
+ * - keyword:stats               chunk count and total token count
+ */
+export class KVKeywordIndex implements KeywordIndex {
+  // Chunks written per pipeline round trip
+  private static readonly WRITE_BATCH_SIZE = 20
+  // Ranked candidates inspected per fetch when applying namespace and metadata filters
+  private static readonly FETCH_BATCH_SIZE = 50
+
+  async upsert(documents: KeywordDocument[]): Promise<void> {
+    for (let i = 0; i < documents.length; i += KVKeywordIndex.WRITE_BATCH_SIZE) {
+      const batch = documents.slice(i, i + KVKeywordIndex.WRITE_BATCH_SIZE)
+
+      // Re-indexed chunks must drop their old postings first
+      await this.removeChunks(batch.map((document) => document.id))
+
+      const pipeline = kv.pipeline()
+      let addedLength = 0
+
+      for (const document of batch) {
+        const tokens = tokenizeKeywords(document.text)
+        const terms = termFrequencies(tokens)
+        const record: IndexedChunk = { text: document.text, metadata: document.metadata, length: tokens.length, terms }
+
+        pipeline.set(`keyword:chunk:${document.id}`, record)
+        pipeline.hset("keyword:lengths", { [document.id]: tokens.length })
+        pipeline.sadd(`keyword:document:${document.metadata.documentId}`, document.id)
+        for (const [term, frequency] of Object.entries(terms)) {
+          pipeline.hset(`keyword:term:${term}`, { [document.id]: frequency })
+        }
+        addedLength += tokens.length
+      }
+
+      pipeline.hincrby("keyword:stats", "chunks", batch.length)
+      pipeline.hincrby("keyword:stats", "totalLength", addedLength)
+      await pipeline.exec()
+    }
+  }
+
+  async delete(chunkIds: string[]): Promise<void> {
+    for (let i = 0; i < chunkIds.length; i += KVKeywordIndex.WRITE_BATCH_SIZE) {
+      await this.removeChunks(chunkIds.slice(i, i + KVKeywordIndex.WRITE_BATCH_SIZE))
+    }
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    const chunkIds = await kv.smembers(`keyword:document:${documentId}`)
+
+    for (let i = 0; i < chunkIds.length; i += KVKeywordIndex.WRITE_BATCH_SIZE) {
+      await this.removeChunks(chunkIds.slice(i, i + KVKeywordIndex.WRITE_BATCH_SIZE))
+    }
+
+    await kv.del(`keyword:document:${documentId}`)
+  }
+
+  async search(query: string, options: KeywordSearchOptions = {}): Promise<SearchResult[]> {
+    const { topK = 10, filter, namespace } = options
+    const terms = Array.from(new Set(tokenizeKeywords(query)))
+    if (terms.length === 0) return []
+
+    const pipeline = kv.pipeline()
+    pipeline.hgetall("keyword:stats")
+    for (const term of terms) {
+      pipeline.hgetall(`keyword:term:${term}`)
+    }
+    const [stats, ...postings] = (await pipeline.exec()) as Array<Record<string, number> | null>
+
+    const totalDocuments = Number(stats?.chunks || 0)
+    if (totalDocuments === 0) return []
+    const averageLength = Number(stats?.totalLength || 0) / totalDocuments
+
+    const candidateIds = Array.from(new Set(postings.flatMap((posting) => Object.keys(posting || {}))))
+    if (candidateIds.length === 0) return []
+
+    const lengthValues = (await kv.hmget<Record<string, number>>("keyword:lengths", ...candidateIds)) || {}
+
+    const ranked = candidateIds
+      .map((id) => {
+        const length = Number(lengthValues[id] || 0)
+        const score = postings.reduce((sum, posting) => {
+          if (!posting || posting[id] === undefined) return sum
+          return sum + bm25(Number(posting[id]), Object.keys(posting).length, length, totalDocuments, averageLength)
+        }, 0)
+        return { id, score }
+      })
+      .sort((a, b) => b.score - a.score)
+
+    // Load text and metadata for the best candidates until enough pass the filter
+    const results: SearchResult[] = []
+    for (let i = 0; i < ranked.length && results.length < topK; i += KVKeywordIndex.FETCH_BATCH_SIZE) {
+      const batch = ranked.slice(i, i + KVKeywordIndex.FETCH_BATCH_SIZE)
+      const records = await kv.mget<(IndexedChunk | null)[]>(...batch.map(({ id }) => `keyword:chunk:${id}`))
+
+      batch.forEach(({ id, score }, index) => {
+        const record = records[index]
+        if (!record || results.length >= topK) return
+        if (!inNamespace(record.metadata, namespace) || !matchesFilter(record.metadata, filter)) return
+        results.push({ id, score, text: record.text, metadata: record.metadata, keywordScore: score })
+      })
+    }
+
+    return results
+  }
+
+  private async removeChunks(chunkIds: string[]) {
+    if (chunkIds.length === 0) return
+
+    const records = await kv.mget<(IndexedChunk | null)[]>(...chunkIds.map((id) => `keyword:chunk:${id}`))
+    const existing = chunkIds
+      .map((id, index) => ({ id, record: records[index] }))
+      .filter((entry): entry is { id: string; record: IndexedChunk } => !!entry.record)
+    if (existing.length === 0) return
+
+    const pipeline = kv.pipeline()
+    for (const { id, record } of existing) {
+      for (const term of Object.keys(record.terms)) {
+        pipeline.hdel(`keyword:term:${term}`, id)
+      }
+      pipeline.hdel("keyword:lengths", id)
+      pipeline.srem(`keyword:document:${record.metadata.documentId}`, id)
+      pipeline.del(`keyword:chunk:${id}`)
+    }
+
+    pipeline.hincrby("keyword:stats", "chunks", -existing.length)
+    pipeline.hincrby(
+      "keyword:stats",
+      "totalLength",
+      -existing.reduce((sum, { record }) => sum + record.length, 0),
+    )
+    await pipeline.exec()
+  }
+}
+
+let memoryIndex: InMemoryKeywordIndex | null = null
+
+// KEYWORD_INDEX=memory keeps the index in-process so hybrid search can run without KV
+export function createKeywordIndex(): KeywordIndex {
+  if (process.env.KEYWORD_INDEX === "memory") {
+    if (!memoryIndex) {
+      memoryIndex = new InMemoryKeywordIndex()
+    }
+    return memoryIndex
+  }
+
+  return new KVKeywordIndex()
+}
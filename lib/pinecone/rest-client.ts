@@ -6,6 +6,7 @@
  */
 
 import { retryPineconeOperation } from "../utils/retry"
+import type { VectorStore } from "../vector-store/types"
 import type {
   PineconeConfig,
   PineconeVector,
@@ -18,7 +19,8 @@ import type {
   PineconeIndexStats,
 } from "./types"
 
-export class PineconeRestClient {
+export class PineconeRestClient implements VectorStore {
+  readonly name = "pinecone"
   private apiKey: string
   private indexName: string
   private baseUrl: string
@@ -140,6 +142,87 @@ export class PineconeRestClient {
     })
   }
 
+  /**
+   * Fetch stored vectors by ID
+   */
+  async fetch(ids: string[], namespace?: string): Promise<PineconeVector[]> {
+    if (ids.length === 0) return []
+
+    return retryPineconeOperation(async () => {
+      try {
+        const params = new URLSearchParams()
+        ids.forEach((id) => params.append("ids", id))
+        if (namespace) params.set("namespace", namespace)
+
+        const response = await fetch(`${this.baseUrl}/vectors/fetch?${params}`, {
+          headers: {
+            "Api-Key": this.apiKey,
+            Accept: "application/json",
+          },
+        })
+
+        if (!response.ok) {
+          const errorText = await response.text()
+          throw new Error(`Pinecone fetch failed: ${response.status} - ${errorText}`)
+        }
+
+        const { vectors = {} } = (await response.json()) as { vectors?: Record<string, PineconeVector> }
+        return Object.values(vectors)
+      } catch (error) {
+        console.error("Pinecone fetch error:", error)
+        // Enhance error with more context
+        if (error instanceof Error) {
+          error.message = `Pinecone Fetch Error (${this.indexName}): ${error.message}`
+        }
+        throw error
+      }
+    })
+  }
+
+  /**
+   * List vector ids by prefix, following pagination tokens
+   */
+  async listIds(prefix: string, namespace?: string): Promise<string[]> {
+    const ids: string[] = []
+    let paginationToken: string | undefined
+
+    do {
+      const params = new URLSearchParams({ prefix, limit: "100" })
+      if (namespace) params.set("namespace", namespace)
+      if (paginationToken) params.set("paginationToken", paginationToken)
+
+      const page = await retryPineconeOperation(async () => {
+        try {
+          const response = await fetch(`${this.baseUrl}/vectors/list?${params}`, {
+            headers: {
+              "Api-Key": this.apiKey,
+              Accept: "application/json",
+            },
+          })
+
+          if (!response.ok) {
+            const errorText = await response.text()
+            throw new Error(`Pinecone list failed: ${response.status} - ${errorText}`)
+          }
+
+          return (await response.json()) as { vectors?: Array<{ id: string }>; pagination?: { next?: string } }
+        } catch (error) {
+          console.error("Pinecone list error:", error)
+          // Enhance error with more context
+          if (error instanceof Error) {
+            error.message = `Pinecone List Error (${this.indexName}): ${error.message}`
+          }
+          throw error
+        }
+      })
+
+      ids.push(...(page.vectors || []).map((vector) => vector.id))
+      paginationToken = page.pagination?.next
+    } while (paginationToken)
+
+    return ids
+  }
+
   /**
    * List indexes (simulated for compatibility)
    */
@@ -7,14 +7,22 @@
  * Runtime context: Edge Function
  * Services: Pinecone
  */
-import type { PineconeRestClient } from "./rest-client"
+import type { VectorStore } from "../vector-store/types"
 import type { Message } from "ai"
+import type { KeywordIndex } from "./keyword-index"
+import { fuseResults, type FusionMethod } from "./hybrid"
+import type { Reranker } from "../ai/rerank"
 
 export interface SearchResult {
   id: string
   score: number
   text: string
   metadata?: Record<string, any>
+  // Component scores before fusion, when hybrid search is used
+  vectorScore?: number
+  keywordScore?: number
+  // Relevance assigned by the reranking stage, when enabled
+  rerankScore?: number
 }
 
 export interface SearchOptions {
@@ -22,18 +30,55 @@ export interface SearchOptions {
   filter?: Record<string, any>
   includeMetadata?: boolean
   hybridSearch?: boolean
+  // Raw query text for the keyword side of hybrid search
+  query?: string
+  keywordIndex?: KeywordIndex
+  fusion?: FusionMethod
+  alpha?: number
+  // Optional second stage that rescores an over-fetched candidate pool
+  reranker?: Reranker
+  // Candidates fetched per result when reranking
+  rerankMultiplier?: number
+  // Collection namespace to search; the default namespace when omitted
+  namespace?: string
 }
 
+// Any vector store backend; only queries are needed here
+export type VectorQueryClient = Pick<VectorStore, "query">
+
 export async function searchVectors(
-  pineconeClient: PineconeRestClient,
+  pineconeClient: VectorQueryClient,
   embedding: number[],
   options: SearchOptions = {},
 ): Promise<SearchResult[]> {
-  const { topK = 5, filter, includeMetadata = true, hybridSearch = false } = options
+  const {
+    topK = 5,
+    filter,
+    includeMetadata = true,
+    hybridSearch = false,
+    query,
+    keywordIndex,
+    fusion,
+    alpha,
+    reranker,
+    rerankMultiplier = 4,
+    namespace,
+  } = options
+
+  // Hybrid search and reranking both need the query text
+  const hasQuery = !!query?.trim()
+  const useHybrid = hybridSearch && hasQuery && !!keywordIndex
+  const useRerank = !!reranker && hasQuery
+
+  // Reranking scores a larger pool than it returns
+  const poolSize = useRerank ? topK * rerankMultiplier : topK
+
+  // Over-fetch from each side so fusion has overlapping candidates to work with
+  const candidateCount = useHybrid ? poolSize * 2 : poolSize
 
   const queryParams: any = {
     vector: embedding,
-    topK,
+    topK: candidateCount,
     includeMetadata,
   }
 
@@ -41,32 +86,74 @@ export async function searchVectors(
     queryParams.filter = filter
   }
 
-  const results = await pineconeClient.query(queryParams)
+  if (namespace) {
+    queryParams.namespace = namespace
+  }
+
+  const [results, keywordResults] = await Promise.all([
+    pineconeClient.query(queryParams),
+    useHybrid
+      ? keywordIndex!.search(query!, { topK: candidateCount, filter, namespace }).catch((error) => {
+          // A missing or stale keyword index should degrade to vector-only search
+          console.error("[SEARCH] Keyword search failed, using vector results only:", error)
+          return [] as SearchResult[]
+        })
+      : Promise.resolve([] as SearchResult[]),
+  ])
 
   // Transform results
   const searchResults: SearchResult[] =
     results.matches?.map((match) => ({
       id: match.id,
       score: match.score,
+      vectorScore: match.score,
       text: match.metadata?.text || "",
       metadata: match.metadata,
     })) || []
 
-  // Deduplicate by section
-  const deduplicated = deduplicateResults(searchResults)
+  const combined = useHybrid ? fuseResults(searchResults, keywordResults, { method: fusion, alpha }) : searchResults
 
-  return deduplicated
+  // Deduplicate by document section (heading path)
+  const deduplicated = deduplicateResults(combined)
+
+  if (useRerank) {
+    return rerankResults(reranker!, query!, deduplicated.slice(0, poolSize), topK)
+  }
+
+  return deduplicated.slice(0, topK)
 }
 
+async function rerankResults(
+  reranker: Reranker,
+  query: string,
+  candidates: SearchResult[],
+  topK: number,
+): Promise<SearchResult[]> {
+  try {
+    const scores = await reranker.rerank(query, candidates)
+
+    return candidates
+      .map((result, index) => ({ ...result, score: scores[index], rerankScore: scores[index] }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+  } catch (error) {
+    // Fall back to retrieval order rather than failing the search
+    console.error(`[SEARCH] ${reranker.name} reranker failed, using retrieval order:`, error)
+    return candidates.slice(0, topK)
+  }
+}
+
+// Keeps the best-scoring chunk per document section. Sections are keyed by their full
+// heading path so identically named headings in different chapters stay distinct.
 function deduplicateResults(results: SearchResult[]): SearchResult[] {
   const seen = new Set<string>()
   const deduplicated: SearchResult[] = []
 
   for (const result of results) {
-    const section = result.metadata?.section || ""
+    const key = getSectionKey(result)
 
-    if (!seen.has(section)) {
-      seen.add(section)
+    if (!seen.has(key)) {
+      seen.add(key)
       deduplicated.push(result)
     }
   }
@@ -74,5 +161,16 @@ function deduplicateResults(results: SearchResult[]): SearchResult[] {
   return deduplicated
 }
 
+function getSectionKey(result: SearchResult): string {
+  const path = result.metadata?.headingPath || result.metadata?.section
+
+  // Chunks outside any heading have no section to collapse into
+  if (!path) {
+    return result.id
+  }
+
+  return `${result.metadata?.documentId || ""}:${path}`
+}
+
 // Re-export Message type from AI SDK for convenience
 export type { Message }
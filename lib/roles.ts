@@ -0,0 +1,42 @@
+/**
+ * Purpose: Role definitions and permissions
+ * Logic:
+ * - Viewers search and chat, editors also upload, re-process and organize documents,
+ *   admins also change settings and use the debug tools
+ * - Each role includes every permission of the roles below it
+ * - Routes check permissions rather than roles, so a role's abilities are defined here only
+ * Runtime context: Shared (Edge Functions and Client Components)
+ */
+
+export type Role = "viewer" | "editor" | "admin"
+
+// Lowest to highest
+export const ROLES: Role[] = ["viewer", "editor", "admin"]
+
+export type Permission =
+  // Search, chat, conversations, answer feedback, and reading documents and jobs
+  | "search"
+  // Upload, re-process, restore, share and delete documents
+  | "documents:write"
+  // Create and delete collections
+  | "collections:write"
+  // Feedback dashboard
+  | "feedback:read"
+  // Settings page and API
+  | "settings"
+  // Debug panel, storage health and cleanup
+  | "debug"
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ["search"],
+  editor: ["search", "documents:write", "collections:write", "feedback:read"],
+  admin: ["search", "documents:write", "collections:write", "feedback:read", "settings", "debug"],
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && ROLES.includes(value as Role)
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission)
+}
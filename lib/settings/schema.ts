@@ -0,0 +1,151 @@
+/**
+ * Purpose: Application settings schema
+ * Logic:
+ * - Defines every setting with its type, default and allowed range in one place
+ * - Validates input field by field, so the settings form can show each error next to its field
+ * - Invalid or missing fields fall back to the base settings, unknown fields are dropped
+ * Runtime context: Shared (Edge Functions and Client Components)
+ */
+import type { RerankerType } from "../ai/rerank"
+import type { ChatProviderType } from "../ai/chat-providers"
+import type { EmbeddingProviderType } from "../ai/embeddings"
+import type { FusionMethod } from "../pinecone/hybrid"
+
+// Bump when the stored shape changes, and add a migration in ./storage
+export const SETTINGS_VERSION = 1
+
+export interface AppSettings {
+  // Retrieval
+  topK: number
+  hybridSearch: boolean
+  fusionMethod: FusionMethod
+  hybridAlpha: number
+  reranker: RerankerType
+  queryRewriting: boolean
+  subQueries: boolean
+  // Ingestion, in model tokens
+  chunkSize: {
+    text: number
+    code: number
+  }
+  // Embeddings; documents must be re-processed after a change
+  embeddingProvider: EmbeddingProviderType
+  embeddingModel: string
+  embeddingDimensions: number
+  // Generation
+  chatProvider: ChatProviderType
+  chatModel: string
+  temperature: number
+  maxTokens: number
+}
+
+// Error messages keyed by field; nested fields use dotted paths such as "chunkSize.text"
+export type SettingsErrors = Record<string, string>
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  topK: 5,
+  hybridSearch: true,
+  fusionMethod: "rrf",
+  hybridAlpha: 0.5,
+  reranker: "none",
+  queryRewriting: true,
+  subQueries: false,
+  chunkSize: {
+    text: 300, // 200-500 tokens recommended for text
+    code: 1000, // 750-1500 tokens recommended for code
+  },
+  embeddingProvider: "openai",
+  embeddingModel: "text-embedding-3-large",
+  embeddingDimensions: 3072,
+  chatProvider: "openai",
+  chatModel: "gpt-4",
+  temperature: 0.7,
+  maxTokens: 1000,
+}
+
+type FieldRule =
+  | { kind: "boolean" }
+  | { kind: "number"; min: number; max: number; integer?: boolean }
+  | { kind: "enum"; values: readonly string[] }
+  | { kind: "string"; maxLength: number }
+
+const RULES: Record<string, FieldRule> = {
+  topK: { kind: "number", min: 1, max: 10, integer: true },
+  hybridSearch: { kind: "boolean" },
+  fusionMethod: { kind: "enum", values: ["rrf", "weighted"] },
+  hybridAlpha: { kind: "number", min: 0, max: 1 },
+  reranker: { kind: "enum", values: ["none", "heuristic", "llm"] },
+  queryRewriting: { kind: "boolean" },
+  subQueries: { kind: "boolean" },
+  "chunkSize.text": { kind: "number", min: 100, max: 1000, integer: true },
+  "chunkSize.code": { kind: "number", min: 500, max: 2000, integer: true },
+  embeddingProvider: { kind: "enum", values: ["openai", "azure", "openai-compatible", "hash"] },
+  embeddingModel: { kind: "string", maxLength: 200 },
+  embeddingDimensions: { kind: "number", min: 1, max: 20000, integer: true },
+  chatProvider: { kind: "enum", values: ["openai", "anthropic", "openai-compatible"] },
+  chatModel: { kind: "string", maxLength: 200 },
+  temperature: { kind: "number", min: 0, max: 1 },
+  maxTokens: { kind: "number", min: 100, max: 8000, integer: true },
+}
+
+function checkField(value: unknown, rule: FieldRule): string | undefined {
+  switch (rule.kind) {
+    case "boolean":
+      return typeof value === "boolean" ? undefined : "Must be on or off"
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) return "Must be a number"
+      if (rule.integer && !Number.isInteger(value)) return "Must be a whole number"
+      if (value < rule.min || value > rule.max) return `Must be between ${rule.min} and ${rule.max}`
+      return undefined
+    case "enum":
+      return typeof value === "string" && rule.values.includes(value)
+        ? undefined
+        : `Must be one of: ${rule.values.join(", ")}`
+    case "string":
+      if (typeof value !== "string" || !value.trim()) return "Is required"
+      if (value.length > rule.maxLength) return `Must be at most ${rule.maxLength} characters`
+      return undefined
+  }
+}
+
+function readPath(source: Record<string, any>, path: string): unknown {
+  return path.split(".").reduce<any>((value, key) => (value && typeof value === "object" ? value[key] : undefined), source)
+}
+
+function writePath(target: Record<string, any>, path: string, value: unknown) {
+  const keys = path.split(".")
+  const last = keys.pop()!
+  const parent = keys.reduce((object, key) => (object[key] = { ...object[key] }), target)
+  parent[last] = value
+}
+
+/**
+ * Validate settings input. Fields missing from the input keep their value from
+ * `base`; invalid fields are reported and also keep the base value, so the
+ * returned settings are always complete and valid.
+ */
+export function validateSettings(
+  input: unknown,
+  base: AppSettings = DEFAULT_SETTINGS,
+): { settings: AppSettings; errors: SettingsErrors } {
+  const settings = structuredClone(base)
+  const errors: SettingsErrors = {}
+
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { settings, errors: { settings: "Settings must be an object" } }
+  }
+
+  for (const [path, rule] of Object.entries(RULES)) {
+    const value = readPath(input as Record<string, any>, path)
+    if (value === undefined) continue
+
+    const error = checkField(value, rule)
+    if (error) {
+      errors[path] = error
+    } else {
+      writePath(settings, path, typeof value === "string" ? value.trim() : value)
+    }
+  }
+
+  return { settings, errors }
+}
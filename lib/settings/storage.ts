@@ -0,0 +1,80 @@
+/**
+ * Purpose: Settings persistence
+ * Logic:
+ * - Single source of truth for settings: one versioned record under "app:settings"
+ * - Migrates older records step by step to the current version when they are read
+ * - Reads always return complete, valid settings; invalid stored fields fall back to defaults
+ * Runtime context: Edge Function
+ * Services: Vercel KV
+ */
+import { kv } from "@vercel/kv"
+import { DEFAULT_SETTINGS, SETTINGS_VERSION, validateSettings, type AppSettings, type SettingsErrors } from "./schema"
+
+export * from "./schema"
+
+const SETTINGS_KEY = "app:settings"
+
+interface StoredSettings {
+  version: number
+  settings: Partial<AppSettings>
+}
+
+type Migration = (settings: Record<string, any>) => Promise<Record<string, any>>
+
+// MIGRATIONS[n] upgrades a record from version n to n + 1
+const MIGRATIONS: Migration[] = [
+  // 0 -> 1: records were the bare settings object, and chunk sizes were read from a separate "settings" key
+  async (settings) => {
+    const legacy = await kv.get<{ chunkSize?: AppSettings["chunkSize"] }>("settings")
+    return legacy?.chunkSize && !settings.chunkSize ? { ...settings, chunkSize: legacy.chunkSize } : settings
+  },
+]
+
+function isStoredSettings(value: unknown): value is StoredSettings {
+  return typeof value === "object" && value !== null && "version" in value && "settings" in value
+}
+
+async function migrate(stored: unknown): Promise<StoredSettings> {
+  let version = isStoredSettings(stored) ? stored.version : 0
+  let settings: Record<string, any> = isStoredSettings(stored) ? stored.settings : (stored as Record<string, any>) || {}
+
+  while (version < SETTINGS_VERSION) {
+    settings = await MIGRATIONS[version](settings)
+    version++
+  }
+
+  return { version, settings }
+}
+
+export async function getSettings(): Promise<AppSettings> {
+  try {
+    const stored = await kv.get(SETTINGS_KEY)
+    if (!stored) return structuredClone(DEFAULT_SETTINGS)
+
+    const current = await migrate(stored)
+    if (!isStoredSettings(stored) || stored.version !== current.version) {
+      await kv.set(SETTINGS_KEY, current)
+      console.log(`[SETTINGS] Migrated settings to version ${current.version}`)
+    }
+
+    const { settings, errors } = validateSettings(current.settings)
+    if (Object.keys(errors).length > 0) {
+      console.warn("[SETTINGS] Ignoring invalid stored settings:", errors)
+    }
+    return settings
+  } catch (error) {
+    console.error("[SETTINGS] Failed to read settings, using defaults:", error)
+    return structuredClone(DEFAULT_SETTINGS)
+  }
+}
+
+// Validates and saves a full or partial update; nothing is saved if any field is invalid
+export async function saveSettings(input: unknown): Promise<{ settings?: AppSettings; errors?: SettingsErrors }> {
+  const { settings, errors } = validateSettings(input, await getSettings())
+  if (Object.keys(errors).length > 0) {
+    return { errors }
+  }
+
+  await kv.set(SETTINGS_KEY, { version: SETTINGS_VERSION, settings } satisfies StoredSettings)
+  return { settings }
+}
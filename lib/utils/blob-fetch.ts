@@ -117,6 +117,49 @@ export async function fetchBlobContent(url: string): Promise<string> {
   }
 }
 
+/**
+ * Fetch binary content from Vercel Blob in Edge Runtime
+ * Used for formats that must not be decoded as text (e.g. PDF)
+ *
+ * @param url - The Vercel Blob URL to fetch content from
+ * @returns Promise<ArrayBuffer> - The raw blob bytes
+ * @throws Error if blob doesn't exist or fetch fails
+ */
+export async function fetchBlobBuffer(url: string): Promise<ArrayBuffer> {
+  if (!url) {
+    throw new Error("Blob URL is required")
+  }
+
+  console.log("[BLOB FETCH] Starting binary blob fetch for URL:", url)
+
+  // Validate blob exists (handles public and token access)
+  await getBlobMetadata(url)
+
+  const response = await fetch(url, { method: "GET" })
+
+  if (!response.ok) {
+    console.error("[BLOB FETCH] Binary fetch failed:", {
+      status: response.status,
+      statusText: response.statusText,
+      url: url,
+    })
+    throw new Error(`Failed to fetch blob content: HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const buffer = await response.arrayBuffer()
+
+  if (buffer.byteLength === 0) {
+    console.warn("[BLOB FETCH] Blob content is empty")
+    throw new Error("Blob content is empty")
+  }
+
+  console.log("[BLOB FETCH] Binary content fetched successfully:", {
+    byteLength: buffer.byteLength,
+  })
+
+  return buffer
+}
+
 /**
  * Validate that a blob exists without fetching its content
  * Useful for checking blob existence before processing
@@ -3,6 +3,7 @@
  * Logic:
  * - Validates required environment variables
  * - Groups variables by service for targeted validation
+ * - Routes that embed or search check only the groups for the configured embedding provider and vector store
  * Runtime context: Edge Function
  */
 
@@ -13,22 +14,54 @@ export const ENV_GROUPS = {
   PINECONE: ["PINECONE_API_KEY", "PINECONE_INDEX_NAME", "PINECONE_HOST"],
   VERCEL_BLOB: ["BLOB_READ_WRITE_TOKEN"],
   VERCEL_KV: ["KV_REST_API_URL", "KV_REST_API_TOKEN"],
+  AZURE_OPENAI: ["AZURE_OPENAI_ENDPOINT", "AZURE_OPENAI_API_KEY"],
+  OPENAI_COMPATIBLE: ["EMBEDDING_BASE_URL"],
 }
 
-export function validateEnv(groups: string[] = Object.keys(ENV_GROUPS)): void {
+export type EnvGroup = keyof typeof ENV_GROUPS
+
+/**
+ * Groups needed to embed and search with the configured services. Hash embeddings
+ * and the in-memory store need no credentials; pgvector falls back to the Supabase
+ * URL and is checked when the store is created.
+ */
+export function getServiceEnvGroups({
+  embeddingProvider = "openai",
+  vectorStore = "pinecone",
+}: {
+  embeddingProvider?: string
+  vectorStore?: string
+}): EnvGroup[] {
+  const groups: EnvGroup[] = []
+
+  if (embeddingProvider === "openai") groups.push("OPENAI")
+  if (embeddingProvider === "azure") groups.push("AZURE_OPENAI")
+  if (embeddingProvider === "openai-compatible") groups.push("OPENAI_COMPATIBLE")
+  if (vectorStore === "pinecone") groups.push("PINECONE")
+
+  return groups
+}
+
+// Non-throwing variant for routes that answer with their own error response
+export function checkEnv(groups: string[] = Object.keys(ENV_GROUPS)): { isValid: boolean; missing: string[] } {
   const requiredVars: string[] = []
 
   // Add variables from requested groups
   groups.forEach((group) => {
-    if (ENV_GROUPS[group as keyof typeof ENV_GROUPS]) {
-      requiredVars.push(...ENV_GROUPS[group as keyof typeof ENV_GROUPS])
+    if (ENV_GROUPS[group as EnvGroup]) {
+      requiredVars.push(...ENV_GROUPS[group as EnvGroup])
     }
   })
 
-  const missingVars = requiredVars.filter((varName) => !process.env[varName])
+  const missing = requiredVars.filter((varName) => !process.env[varName])
+  return { isValid: missing.length === 0, missing }
+}
+
+export function validateEnv(groups: string[] = Object.keys(ENV_GROUPS)): void {
+  const { missing } = checkEnv(groups)
 
-  if (missingVars.length > 0) {
-    throw new Error(`Missing required environment variables: ${missingVars.join(", ")}`)
+  if (missing.length > 0) {
+    throw new Error(`Missing required environment variables: ${missing.join(", ")}`)
   }
 }
 
@@ -0,0 +1,73 @@
+/**
+ * Purpose: Vector store factory
+ * Logic:
+ * - Selects the backend from VECTOR_STORE: pinecone (default), memory or pgvector
+ * - Returns one shared instance per isolate
+ * - Deletes a document's vectors by listing their ids, which every backend supports
+ * Runtime context: Edge Function
+ *
+ * The file-backed store uses Node.js APIs, so scripts construct it directly
+ * instead of going through this factory.
+ */
+import { createClient } from "../pinecone/client"
+import { MemoryVectorStore } from "./memory"
+import { PgVectorStore } from "./pgvector"
+import type { VectorStore, VectorStoreType } from "./types"
+
+let vectorStore: VectorStore | null = null
+
+// Pinecone deletes at most 1000 ids per request
+const DELETE_BATCH_SIZE = 1000
+
+export function getVectorStoreType(): VectorStoreType {
+  const type = process.env.VECTOR_STORE
+  return type === "memory" || type === "pgvector" ? type : "pinecone"
+}
+
+export function createVectorStore(): VectorStore {
+  const type = getVectorStoreType()
+
+  if (type === "pinecone") {
+    // The Pinecone client keeps its own singleton
+    return createClient()
+  }
+
+  if (!vectorStore) {
+    if (type === "memory") {
+      vectorStore = new MemoryVectorStore()
+    } else {
+      const url =
+        process.env.PGVECTOR_URL ||
+        (process.env.NEXT_PUBLIC_SUPABASE_URL ? `${process.env.NEXT_PUBLIC_SUPABASE_URL}/rest/v1` : "")
+      const apiKey = process.env.PGVECTOR_API_KEY || process.env.SUPABASE_SERVICE_ROLE_KEY || ""
+
+      if (!url) {
+        throw new Error("Missing required environment variable: PGVECTOR_URL")
+      }
+      if (!apiKey) {
+        throw new Error("Missing required environment variable: PGVECTOR_API_KEY")
+      }
+
+      vectorStore = new PgVectorStore({ url, apiKey, table: process.env.PGVECTOR_TABLE })
+    }
+  }
+
+  return vectorStore
+}
+
+export async function deleteVectorIds(store: VectorStore, ids: string[], namespace?: string): Promise<void> {
+  for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+    await store.delete({ ids: ids.slice(i, i + DELETE_BATCH_SIZE), namespace })
+  }
+}
+
+/**
+ * Delete every vector of a document. Chunk ids start with the document id, both the
+ * content-hash ids and the positional ids of documents indexed before them.
+ * Returns how many vectors were found.
+ */
+export async function deleteDocumentVectors(store: VectorStore, documentId: string, namespace?: string): Promise<number> {
+  const ids = await store.listIds(`${documentId}-`, namespace)
+  await deleteVectorIds(store, ids, namespace)
+  return ids.length
+}
@@ -0,0 +1,82 @@
+/**
+ * Purpose: File-backed vector store
+ * Logic:
+ * - Extends the in-process store with a JSON snapshot on disk
+ * - Loads the snapshot on first use and rewrites it after every change
+ * Runtime context: Node.js only (scripts, tests, local tooling); not bundled into Edge routes
+ */
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import { dirname } from "node:path"
+import { MemoryVectorStore, type VectorStoreSnapshot } from "./memory"
+import type {
+  VectorDeleteRequest,
+  VectorDeleteResponse,
+  VectorQueryRequest,
+  VectorQueryResponse,
+  VectorRecord,
+  VectorStoreStats,
+  VectorUpsertResponse,
+} from "./types"
+
+export class FileVectorStore extends MemoryVectorStore {
+  readonly name: string = "file"
+  private loaded: Promise<void> | null = null
+
+  constructor(private readonly path: string) {
+    super()
+  }
+
+  private load() {
+    if (!this.loaded) {
+      this.loaded = readFile(this.path, "utf8").then(
+        (content) => this.loadSnapshot(JSON.parse(content) as VectorStoreSnapshot),
+        (error: NodeJS.ErrnoException) => {
+          // A missing file is an empty store
+          if (error.code !== "ENOENT") throw error
+        },
+      )
+    }
+    return this.loaded
+  }
+
+  // Write to a temporary file first so a crash never leaves a truncated snapshot
+  private async save() {
+    await mkdir(dirname(this.path), { recursive: true })
+    await writeFile(`${this.path}.tmp`, JSON.stringify(this.toSnapshot()))
+    await rename(`${this.path}.tmp`, this.path)
+  }
+
+  async query(request: VectorQueryRequest): Promise<VectorQueryResponse> {
+    await this.load()
+    return super.query(request)
+  }
+
+  async upsert(vectors: VectorRecord[], namespace?: string): Promise<VectorUpsertResponse> {
+    await this.load()
+    const result = await super.upsert(vectors, namespace)
+    await this.save()
+    return result
+  }
+
+  async delete(request: VectorDeleteRequest): Promise<VectorDeleteResponse> {
+    await this.load()
+    const result = await super.delete(request)
+    if (result.deletedCount > 0) await this.save()
+    return result
+  }
+
+  async fetch(ids: string[], namespace?: string): Promise<VectorRecord[]> {
+    await this.load()
+    return super.fetch(ids, namespace)
+  }
+
+  async listIds(prefix: string, namespace?: string): Promise<string[]> {
+    await this.load()
+    return super.listIds(prefix, namespace)
+  }
+
+  async describeIndexStats(namespace?: string): Promise<VectorStoreStats> {
+    await this.load()
+    return super.describeIndexStats(namespace)
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Purpose: In-process vector store
+ * Logic:
+ * - Keeps vectors per namespace in Maps
+ * - Answers queries by exact cosine similarity
+ * - Applies Pinecone-style metadata filters to queries and deletes
+ * - Can export and import snapshots so a subclass can persist them
+ * Runtime context: Edge Function or Node.js
+ *
+ * Data lives as long as the isolate or process, so this suits local development,
+ * tests and evaluation rather than production.
+ */
+import { matchesFilter } from "../pinecone/filters"
+import type {
+  VectorDeleteRequest,
+  VectorDeleteResponse,
+  VectorQueryRequest,
+  VectorQueryResponse,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+  VectorUpsertResponse,
+} from "./types"
+
+// Namespace -> vectors
+export type VectorStoreSnapshot = Record<string, VectorRecord[]>
+
+// Pinecone's name for the namespace used when none is given
+const DEFAULT_NAMESPACE = ""
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0
+}
+
+export class MemoryVectorStore implements VectorStore {
+  readonly name: string = "memory"
+  private namespaces = new Map<string, Map<string, VectorRecord>>()
+  private dimension = 0
+
+  private namespace(name = DEFAULT_NAMESPACE) {
+    let vectors = this.namespaces.get(name)
+    if (!vectors) {
+      vectors = new Map()
+      this.namespaces.set(name, vectors)
+    }
+    return vectors
+  }
+
+  async query(request: VectorQueryRequest): Promise<VectorQueryResponse> {
+    const vectors = this.namespaces.get(request.namespace || DEFAULT_NAMESPACE)
+    if (!vectors) return { matches: [], namespace: request.namespace }
+
+    const matches = [...vectors.values()]
+      .filter((vector) => matchesFilter(vector.metadata, request.filter))
+      .map((vector) => ({
+        id: vector.id,
+        score: cosineSimilarity(request.vector, vector.values),
+        metadata: request.includeMetadata === false ? undefined : vector.metadata,
+        values: request.includeValues ? vector.values : undefined,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, request.topK)
+
+    return { matches, namespace: request.namespace }
+  }
+
+  async upsert(vectors: VectorRecord[], namespace?: string): Promise<VectorUpsertResponse> {
+    const target = this.namespace(namespace)
+
+    for (const vector of vectors) {
+      // Like a real index, every vector must have the same dimension
+      if (this.dimension && vector.values.length !== this.dimension) {
+        throw new Error(
+          `Vector dimension mismatch for ${vector.id}: expected ${this.dimension}, got ${vector.values.length}`,
+        )
+      }
+      this.dimension = vector.values.length
+      target.set(vector.id, vector)
+    }
+
+    return { upsertedCount: vectors.length }
+  }
+
+  async delete(request: VectorDeleteRequest): Promise<VectorDeleteResponse> {
+    const vectors = this.namespaces.get(request.namespace || DEFAULT_NAMESPACE)
+    if (!vectors) return { deletedCount: 0 }
+
+    let deletedCount = 0
+    for (const vector of [...vectors.values()]) {
+      const selected =
+        (request.ids ? request.ids.includes(vector.id) : true) &&
+        (request.filter ? matchesFilter(vector.metadata, request.filter) : true)
+
+      // A request with neither ids nor filter deletes nothing rather than everything
+      if (selected && (request.ids || request.filter)) {
+        vectors.delete(vector.id)
+        deletedCount++
+      }
+    }
+
+    return { deletedCount }
+  }
+
+  async fetch(ids: string[], namespace?: string): Promise<VectorRecord[]> {
+    const vectors = this.namespaces.get(namespace || DEFAULT_NAMESPACE)
+    if (!vectors) return []
+    return ids.map((id) => vectors.get(id)).filter((vector): vector is VectorRecord => !!vector)
+  }
+
+  async listIds(prefix: string, namespace?: string): Promise<string[]> {
+    const vectors = this.namespaces.get(namespace || DEFAULT_NAMESPACE)
+    return vectors ? [...vectors.keys()].filter((id) => id.startsWith(prefix)) : []
+  }
+
+  async describeIndexStats(namespace?: string): Promise<VectorStoreStats> {
+    const namespaces: VectorStoreStats["namespaces"] = {}
+    let totalVectorCount = 0
+
+    for (const [name, vectors] of this.namespaces) {
+      if (namespace !== undefined && name !== namespace) continue
+      namespaces[name] = { vectorCount: vectors.size }
+      totalVectorCount += vectors.size
+    }
+
+    return { namespaces, dimension: this.dimension, indexFullness: 0, totalVectorCount }
+  }
+
+  toSnapshot(): VectorStoreSnapshot {
+    return Object.fromEntries([...this.namespaces].map(([name, vectors]) => [name, [...vectors.values()]]))
+  }
+
+  loadSnapshot(snapshot: VectorStoreSnapshot) {
+    this.namespaces.clear()
+    this.dimension = 0
+    for (const [name, vectors] of Object.entries(snapshot)) {
+      const target = this.namespace(name)
+      for (const vector of vectors) {
+        target.set(vector.id, vector)
+        this.dimension = vector.values.length
+      }
+    }
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Purpose: Postgres pgvector store
+ * Logic:
+ * - Talks to Postgres through PostgREST (e.g. Supabase's REST API), so it runs on the Edge
+ * - Similarity search goes through the match_vectors SQL function (see docs/PGVECTOR.md)
+ * - Equality parts of a filter are pushed down as JSONB containment and $in parts as
+ *   value lists, so topK applies after filtering; anything else in the Pinecone-style
+ *   filter is applied to the returned rows
+ * Runtime context: Edge Function
+ * Services: PostgreSQL with the pgvector extension, PostgREST
+ */
+import { matchesFilter, type MetadataFilter } from "../pinecone/filters"
+import type {
+  VectorDeleteRequest,
+  VectorDeleteResponse,
+  VectorQueryRequest,
+  VectorQueryResponse,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+  VectorUpsertResponse,
+} from "./types"
+
+export interface PgVectorConfig {
+  // PostgREST base URL, e.g. https://<project>.supabase.co/rest/v1
+  url: string
+  apiKey: string
+  table?: string
+}
+
+// Extra candidates fetched per result when part of the filter must be applied after the query
+const FILTER_OVERFETCH = 4
+
+const UPSERT_BATCH_SIZE = 100
+
+// Rows per page when listing ids; PostgREST servers often cap responses at 1000 rows
+const LIST_PAGE_SIZE = 1000
+
+// Splits a filter into the equality conditions Postgres can check with @>, the $in conditions
+// match_vectors checks as value lists, and whether anything else remains
+export function toContainmentFilter(filter?: MetadataFilter): {
+  contains: Record<string, any>
+  anyOf: Record<string, any[]>
+  exact: boolean
+} {
+  const contains: Record<string, any> = {}
+  const anyOf: Record<string, any[]> = {}
+  let exact = true
+
+  const visit = (node: MetadataFilter) => {
+    for (const [key, condition] of Object.entries(node)) {
+      if (key === "$and" && Array.isArray(condition)) {
+        condition.forEach(visit)
+      } else if (key.startsWith("$")) {
+        exact = false
+      } else if (condition === null || typeof condition !== "object") {
+        contains[key] = condition
+      } else if (Object.keys(condition).length === 1 && "$eq" in condition) {
+        contains[key] = condition.$eq
+      } else if (Object.keys(condition).length === 1 && Array.isArray(condition.$in)) {
+        // Two $in conditions on one field, e.g. a user filter and the read-access filter, must both hold
+        const values: any[] = condition.$in
+        anyOf[key] = key in anyOf ? anyOf[key].filter((value) => values.includes(value)) : values
+      } else {
+        exact = false
+      }
+    }
+  }
+
+  if (filter) visit(filter)
+  return { contains, anyOf, exact }
+}
+
+// PostgREST query parameters for deleting by metadata; supports equality and $in conditions
+function toDeleteParams(filter: MetadataFilter, params: URLSearchParams) {
+  for (const [key, condition] of Object.entries(filter)) {
+    if (key === "$and" && Array.isArray(condition)) {
+      condition.forEach((part) => toDeleteParams(part, params))
+    } else if (condition === null || typeof condition !== "object") {
+      params.append(`metadata->>${key}`, `eq.${condition}`)
+    } else if ("$eq" in condition && Object.keys(condition).length === 1) {
+      params.append(`metadata->>${key}`, `eq.${condition.$eq}`)
+    } else if ("$in" in condition && Object.keys(condition).length === 1) {
+      const values = condition.$in.map((value: unknown) => JSON.stringify(String(value)))
+      params.append(`metadata->>${key}`, `in.(${values.join(",")})`)
+    } else {
+      throw new Error(`Unsupported filter for pgvector delete on "${key}"`)
+    }
+  }
+}
+
+export class PgVectorStore implements VectorStore {
+  readonly name = "pgvector"
+  private baseUrl: string
+  private apiKey: string
+  private table: string
+
+  constructor(config: PgVectorConfig) {
+    if (!config.url) throw new Error("pgvector PostgREST URL is required")
+    if (!config.apiKey) throw new Error("pgvector API key is required")
+
+    this.baseUrl = config.url.replace(/\/$/, "")
+    this.apiKey = config.apiKey
+    this.table = config.table || "vectors"
+  }
+
+  private async request(path: string, init: RequestInit & { prefer?: string } = {}) {
+    const { prefer, ...rest } = init
+    const response = await fetch(`${this.baseUrl}/${path}`, {
+      ...rest,
+      headers: {
+        apikey: this.apiKey,
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+        Accept: "application/json",
+        ...(prefer ? { Prefer: prefer } : {}),
+      },
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`pgvector request failed: ${response.status} - ${errorText}`)
+    }
+
+    return response
+  }
+
+  async query(request: VectorQueryRequest): Promise<VectorQueryResponse> {
+    const { contains, anyOf, exact } = toContainmentFilter(request.filter)
+
+    const response = await this.request("rpc/match_vectors", {
+      method: "POST",
+      body: JSON.stringify({
+        query_embedding: request.vector,
+        match_count: exact ? request.topK : request.topK * FILTER_OVERFETCH,
+        metadata_filter: contains,
+        // Only sent when needed, so a match_vectors created before metadata_in existed keeps working without $in
+        ...(Object.keys(anyOf).length > 0 ? { metadata_in: anyOf } : {}),
+        match_namespace: request.namespace || "",
+      }),
+    })
+
+    const rows = (await response.json()) as Array<{ id: string; metadata: Record<string, any>; similarity: number }>
+
+    const matches = rows
+      .filter((row) => exact || matchesFilter(row.metadata, request.filter))
+      .slice(0, request.topK)
+      .map((row) => ({
+        id: row.id,
+        score: row.similarity,
+        metadata: request.includeMetadata === false ? undefined : row.metadata,
+      }))
+
+    return { matches, namespace: request.namespace }
+  }
+
+  async upsert(vectors: VectorRecord[], namespace?: string): Promise<VectorUpsertResponse> {
+    for (let i = 0; i < vectors.length; i += UPSERT_BATCH_SIZE) {
+      const rows = vectors.slice(i, i + UPSERT_BATCH_SIZE).map((vector) => ({
+        id: vector.id,
+        namespace: namespace || "",
+        // pgvector parses the JSON array text form, e.g. [0.1,0.2]
+        embedding: JSON.stringify(vector.values),
+        metadata: vector.metadata || {},
+      }))
+
+      await this.request(`${this.table}?on_conflict=namespace,id`, {
+        method: "POST",
+        body: JSON.stringify(rows),
+        prefer: "resolution=merge-duplicates,return=minimal",
+      })
+    }
+
+    return { upsertedCount: vectors.length }
+  }
+
+  async delete(request: VectorDeleteRequest): Promise<VectorDeleteResponse> {
+    if (!request.ids?.length && !request.filter) {
+      return { deletedCount: 0 }
+    }
+
+    const params = new URLSearchParams({ namespace: `eq.${request.namespace || ""}` })
+    if (request.ids?.length) {
+      params.append("id", `in.(${request.ids.map((id) => JSON.stringify(id)).join(",")})`)
+    }
+    if (request.filter) {
+      toDeleteParams(request.filter, params)
+    }
+
+    const response = await this.request(`${this.table}?${params}`, {
+      method: "DELETE",
+      prefer: "return=representation",
+    })
+    const deleted = (await response.json()) as unknown[]
+
+    return { deletedCount: deleted.length }
+  }
+
+  async fetch(ids: string[], namespace?: string): Promise<VectorRecord[]> {
+    if (ids.length === 0) return []
+
+    const params = new URLSearchParams({
+      select: "id,embedding,metadata",
+      namespace: `eq.${namespace || ""}`,
+      id: `in.(${ids.map((id) => JSON.stringify(id)).join(",")})`,
+    })
+    const response = await this.request(`${this.table}?${params}`)
+    const rows = (await response.json()) as Array<{ id: string; embedding: string; metadata: Record<string, any> }>
+
+    // pgvector returns embeddings in their JSON array text form
+    return rows.map((row) => ({ id: row.id, values: JSON.parse(row.embedding), metadata: row.metadata }))
+  }
+
+  async listIds(prefix: string, namespace?: string): Promise<string[]> {
+    const ids: string[] = []
+
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const params = new URLSearchParams({
+        select: "id",
+        namespace: `eq.${namespace || ""}`,
+        // PostgREST uses * as the LIKE wildcard; a % or _ in the prefix is rechecked below
+        id: `like.${prefix}*`,
+        order: "id",
+        limit: String(LIST_PAGE_SIZE),
+        offset: String(offset),
+      })
+      const response = await this.request(`${this.table}?${params}`)
+      const rows = (await response.json()) as Array<{ id: string }>
+
+      ids.push(...rows.map((row) => row.id).filter((id) => id.startsWith(prefix)))
+      if (rows.length < LIST_PAGE_SIZE) return ids
+    }
+  }
+
+  async describeIndexStats(namespace?: string): Promise<VectorStoreStats> {
+    const response = await this.request("rpc/vector_stats", {
+      method: "POST",
+      body: JSON.stringify({ match_namespace: namespace ?? null }),
+    })
+
+    const rows = (await response.json()) as Array<{ namespace: string; vector_count: number; dimension: number | null }>
+
+    const namespaces: VectorStoreStats["namespaces"] = {}
+    let totalVectorCount = 0
+    let dimension = 0
+    for (const row of rows) {
+      namespaces[row.namespace] = { vectorCount: Number(row.vector_count) }
+      totalVectorCount += Number(row.vector_count)
+      dimension = row.dimension || dimension
+    }
+
+    return { namespaces, dimension, indexFullness: 0, totalVectorCount }
+  }
+}
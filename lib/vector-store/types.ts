@@ -0,0 +1,41 @@
+/**
+ * Purpose: Vector store abstraction
+ * Logic:
+ * - Defines the operations retrieval and ingestion need from a vector database
+ * - Request and response shapes follow Pinecone's, which every backend adapts to,
+ *   including Pinecone's metadata filter syntax
+ * - Deletes by metadata filter are not portable (Pinecone serverless rejects them), so a
+ *   document's vectors are found by id prefix with listIds and deleted by id
+ * Runtime context: Edge Function
+ */
+import type {
+  PineconeDeleteRequest,
+  PineconeDeleteResponse,
+  PineconeIndexStats,
+  PineconeQueryRequest,
+  PineconeQueryResponse,
+  PineconeUpsertResponse,
+  PineconeVector,
+} from "../pinecone/types"
+
+export type VectorStoreType = "pinecone" | "memory" | "pgvector"
+
+export type VectorRecord = PineconeVector
+export type VectorQueryRequest = PineconeQueryRequest
+export type VectorQueryResponse = PineconeQueryResponse
+export type VectorUpsertResponse = PineconeUpsertResponse
+export type VectorDeleteRequest = PineconeDeleteRequest
+export type VectorDeleteResponse = PineconeDeleteResponse
+export type VectorStoreStats = PineconeIndexStats
+
+export interface VectorStore {
+  readonly name: string
+  query(request: VectorQueryRequest): Promise<VectorQueryResponse>
+  upsert(vectors: VectorRecord[], namespace?: string): Promise<VectorUpsertResponse>
+  delete(request: VectorDeleteRequest): Promise<VectorDeleteResponse>
+  // Stored vectors for the given ids; ids that are not stored are left out
+  fetch(ids: string[], namespace?: string): Promise<VectorRecord[]>
+  // Ids of every vector in the namespace whose id starts with prefix
+  listIds(prefix: string, namespace?: string): Promise<string[]>
+  describeIndexStats(namespace?: string): Promise<VectorStoreStats>
+}
@@ -1,11 +1,77 @@
+/**
+ * Purpose: Authentication gate for the dashboard and the API
+ * Logic:
+ * - Refreshes the Supabase session on every matched request and writes renewed cookies to the response
+ * - Unauthenticated page requests are redirected to /auth/login with the original path as redirectTo
+ * - Unauthenticated API calls get the same 401 JSON every route returns
+ * - Public API routes are allow-listed explicitly; requests carrying a bearer token pass through,
+ *   since API keys are verified by requireAuth() in the route
+ * - Routes still check auth and permissions themselves; this only stops anonymous requests early
+ * Runtime context: Edge Middleware
+ */
+import { createServerClient } from "@supabase/ssr"
 import { NextResponse } from "next/server"
 import type { NextRequest } from "next/server"
 
+// Exact paths reachable without a session
+const PUBLIC_API_ROUTES = [
+  "/api/health",
+  // Authenticated by CRON_SECRET; Vercel Cron has no session
+  "/api/jobs/cron",
+]
+
+function unauthorized() {
+  return new Response(JSON.stringify({ error: "Unauthorized", message: "Authentication required" }), {
+    status: 401,
+    headers: { "Content-Type": "application/json" },
+  })
+}
+
 export async function middleware(request: NextRequest) {
-  // Let Supabase handle auth via cookies
-  return NextResponse.next()
+  const { pathname, search } = request.nextUrl
+  const isApi = pathname.startsWith("/api/")
+
+  if (isApi && PUBLIC_API_ROUTES.includes(pathname)) {
+    return NextResponse.next()
+  }
+  if (isApi && request.headers.get("authorization")?.startsWith("Bearer ")) {
+    return NextResponse.next()
+  }
+
+  let response = NextResponse.next({ request })
+
+  const supabase = createServerClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    cookies: {
+      getAll() {
+        return request.cookies.getAll()
+      },
+      setAll(cookiesToSet) {
+        // Renewed tokens go to the route handler via the request and to the browser via the response
+        cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
+        response = NextResponse.next({ request })
+        cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options))
+      },
+    },
+  })
+
+  // getUser() validates the token with Supabase and refreshes it when expired
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (user) {
+    return response
+  }
+
+  if (isApi) {
+    return unauthorized()
+  }
+
+  const loginUrl = new URL("/auth/login", request.url)
+  loginUrl.searchParams.set("redirectTo", `${pathname}${search}`)
+  return NextResponse.redirect(loginUrl)
 }
 
 export const config = {
-  matcher: ["/dashboard/:path*", "/api/:path*"]
+  matcher: ["/dashboard/:path*", "/api/:path*"],
 }
@@ -0,0 +1,91 @@
+/**
+ * Purpose: Command-line runner for the offline retrieval evaluation
+ * Logic:
+ * - Loads a golden set and the documents it references
+ * - Runs it with the deterministic embedder and local stores
+ * - Prints a report and optionally fails below a recall threshold
+ * Runtime context: Node.js
+ *
+ * Usage:
+ *   pnpm eval [--set eval/golden/unreal-engine.json] [--k 5] [--no-hybrid]
+ *             [--fusion rrf|weighted] [--alpha 0.5] [--reranker none|heuristic]
+ *             [--text-chunk 300] [--code-chunk 1000] [--json report.json] [--min-recall 0.8]
+ */
+import { readFile, writeFile } from "node:fs/promises"
+import { dirname, resolve } from "node:path"
+import { formatReport, runEvaluation, type EvaluationConfig, type GoldenSet } from "../lib/eval/harness"
+import type { FusionMethod } from "../lib/pinecone/hybrid"
+import type { RerankerType } from "../lib/ai/rerank"
+
+interface GoldenSetFile extends Omit<GoldenSet, "documents"> {
+  documents: Array<{ id: string; filename: string; type?: string; path: string }>
+}
+
+function parseArgs(argv: string[]) {
+  const args = new Map<string, string>()
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (!arg.startsWith("--")) continue
+
+    const next = argv[i + 1]
+    if (next === undefined || next.startsWith("--")) {
+      args.set(arg.slice(2), "true")
+    } else {
+      args.set(arg.slice(2), next)
+      i++
+    }
+  }
+  return args
+}
+
+async function loadGoldenSet(path: string): Promise<GoldenSet> {
+  const file = JSON.parse(await readFile(path, "utf8")) as GoldenSetFile
+  const baseDir = dirname(path)
+
+  const documents = await Promise.all(
+    file.documents.map(async ({ path: documentPath, ...document }) => ({
+      ...document,
+      content: await readFile(resolve(baseDir, documentPath), "utf8"),
+    })),
+  )
+
+  return { ...file, documents }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+  const setPath = resolve(args.get("set") || "eval/golden/unreal-engine.json")
+
+  const config: Partial<EvaluationConfig> = {}
+  if (args.has("k")) config.k = Number(args.get("k"))
+  if (args.has("no-hybrid")) config.hybridSearch = false
+  if (args.has("fusion")) config.fusionMethod = args.get("fusion") as FusionMethod
+  if (args.has("alpha")) config.hybridAlpha = Number(args.get("alpha"))
+  if (args.has("reranker")) config.reranker = args.get("reranker") as RerankerType
+  if (args.has("text-chunk") || args.has("code-chunk")) {
+    config.chunkSize = {
+      text: Number(args.get("text-chunk") || 300),
+      code: Number(args.get("code-chunk") || 1000),
+    }
+  }
+
+  const report = await runEvaluation(await loadGoldenSet(setPath), config)
+  console.log(formatReport(report))
+
+  const jsonPath = args.get("json")
+  if (jsonPath) {
+    await writeFile(jsonPath, JSON.stringify(report, null, 2))
+    console.log(`\nWrote ${jsonPath}`)
+  }
+
+  const minRecall = args.get("min-recall")
+  if (minRecall && report.metrics.recall < Number(minRecall)) {
+    console.error(`\nMean recall ${report.metrics.recall.toFixed(3)} is below the threshold of ${minRecall}`)
+    process.exit(1)
+  }
+}
+
+main().catch((error) => {
+  console.error("[EVAL] Evaluation failed:", error)
+  process.exit(1)
+})
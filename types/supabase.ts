@@ -1,14 +1,14 @@
 /**
- * Minimal Supabase Types for Single-User Auth
+ * Minimal Supabase Types for Auth
  *
  * Purpose: Essential type definitions for authentication
- * Scope: Email/password authentication only
+ * Scope: Email/password authentication; roles live in each user's app_metadata (see lib/roles.ts)
  */
 
 export interface Database {
   public: {
     Tables: {
-      // No user tables needed for single-user access
+      // No user tables needed; roles are stored in Supabase Auth app_metadata
       // Auth handled entirely by Supabase Auth service
     }
     Views: {
@@ -37,4 +37,4 @@ export type AuthState = {
   loading: boolean
 }
 
-// No complex user roles, permissions, or profile types needed
+// Roles and permissions are defined in lib/roles.ts; no profile types needed